@@ -0,0 +1,129 @@
+import { TFile } from "obsidian";
+import type { EventRef } from "obsidian";
+import type ZoxidianPlugin from "./main";
+import type { FileEntry } from "./types";
+import { getFrecency } from "./frecency";
+import { matchZoxideQuery, parseZoxideQuery } from "./query";
+
+// ---------------------------------------------------------------------------
+// Public API — the supported way for other plugins and scripts (Templater,
+// QuickAdd, …) to read the ranking:
+//
+//   const api = app.plugins.getPlugin("zoxide-notes")?.api;
+//   if (api?.version >= 1) api.getRanking({ limit: 10 });
+//
+// Everything here is a thin layer over the plugin's own methods that hands
+// out copies, so internal refactors do not leak through. Changes that break
+// callers bump API_VERSION; additions do not.
+//
+// The plugin also triggers workspace events, typed below:
+//
+//   zoxidian:visit   (path)                     a visit was counted
+//   zoxidian:rename  (oldPath, newPath, folder) tracked notes moved
+//   zoxidian:prune   (paths, reason)            notes left the database
+// ---------------------------------------------------------------------------
+
+export const API_VERSION = 1;
+
+/** A tracked note as the API reports it: a snapshot, safe to keep. */
+export interface ZoxidianNote {
+	path: string;
+	/** The ranking score: the base score weighted by recency (and context, when on). */
+	frecency: number;
+	/** Base score, before recency weighting. */
+	score: number;
+	/** Unix timestamp (ms) of the most recent visit. */
+	lastAccess: number;
+	opens: number;
+	edits: number;
+	pinned: boolean;
+}
+
+export interface RankingQuery {
+	/** At most this many notes. Defaults to the "Max items" setting; 0 for no limit. */
+	limit?: number;
+	/** Only notes in this folder or below it. */
+	folder?: string;
+	/** zoxide keywords the path must match, as in the search modal's zoxide mode. */
+	query?: string;
+	/** Also list tracked notes whose file no longer exists. */
+	includeMissing?: boolean;
+}
+
+/** Why notes left the database: deleted from the vault, removed from the list, or aged out. */
+export type PruneReason = "deleted" | "removed" | "aged";
+
+export interface ZoxidianApi {
+	/** API_VERSION of the installed plugin. */
+	readonly version: number;
+	/** Notes of the active profile, most frecent first. */
+	getRanking(query?: RankingQuery): ZoxidianNote[];
+	/** One note, or null when it is not tracked or hidden by an exclusion rule. */
+	getNote(path: string): ZoxidianNote | null;
+	/** Count a visit to an existing note. Returns false when it was ignored (e.g. excluded). */
+	recordVisit(path: string): boolean;
+	isPinned(path: string): boolean;
+	/** Pinned note paths, in display order. */
+	getPinned(): string[];
+	/** Whether an exclusion rule keeps `path` out of tracking or out of the lists. */
+	isExcluded(path: string, scope?: "tracking" | "display"): boolean;
+}
+
+declare module "obsidian" {
+	interface Workspace {
+		on(name: "zoxidian:visit", callback: (path: string) => unknown, ctx?: unknown): EventRef;
+		on(name: "zoxidian:rename", callback: (oldPath: string, newPath: string, folder: boolean) => unknown, ctx?: unknown): EventRef;
+		on(name: "zoxidian:prune", callback: (paths: string[], reason: PruneReason) => unknown, ctx?: unknown): EventRef;
+	}
+}
+
+function toNote(plugin: ZoxidianPlugin, path: string, entry: FileEntry, frecency: number): ZoxidianNote {
+	return {
+		path,
+		frecency,
+		score:      entry.score,
+		lastAccess: entry.lastAccess,
+		opens:      entry.opens ?? 0,
+		edits:      entry.edits ?? 0,
+		pinned:     plugin.isPinned(path),
+	};
+}
+
+export function createApi(plugin: ZoxidianPlugin): ZoxidianApi {
+	const exists = (path: string) => plugin.app.vault.getAbstractFileByPath(path) instanceof TFile;
+
+	return {
+		version: API_VERSION,
+
+		getRanking({ limit, folder, query, includeMissing = false }: RankingQuery = {}) {
+			const max    = limit ?? plugin.getEffectiveSettings().maxItems;
+			const parsed = query?.trim() ? parseZoxideQuery(query) : null;
+			const prefix = folder ? `${folder.replace(/\/+$/, "")}/` : null;
+			const notes: ZoxidianNote[] = [];
+			for (const { path, entry, frecency } of plugin.getSortedEntries(false)) {
+				if (max > 0 && notes.length >= max) break;
+				if (prefix && !path.startsWith(prefix)) continue;
+				if (parsed && matchZoxideQuery(parsed, path) === null) continue;
+				if (!includeMissing && !exists(path)) continue;
+				notes.push(toNote(plugin, path, entry, frecency));
+			}
+			return notes;
+		},
+
+		getNote(path) {
+			const entry = plugin.getMergedData().files[path];
+			if (!entry || plugin.isExcluded(path, "display")) return null;
+			const frecency = getFrecency(entry, Date.now(), plugin.getEffectiveSettings());
+			return toNote(plugin, path, entry, frecency);
+		},
+
+		recordVisit(path) {
+			const file = plugin.app.vault.getAbstractFileByPath(path);
+			return file instanceof TFile && plugin.recordVisit(file, false);
+		},
+
+		isPinned:  (path) => plugin.isPinned(path),
+		getPinned: () => [...plugin.pinned],
+		isExcluded: (path, scope = "display") => plugin.isExcluded(path, scope),
+	};
+}
@@ -0,0 +1,188 @@
+import { Setting } from "obsidian";
+import type ZoxidianPlugin from "./main";
+import { DAY, HOUR, MINUTE, WEEK, ZOXIDE_BUCKETS, ZOXIDE_OLDER_MULTIPLIER, validateBuckets } from "./frecency";
+import type { RecencyBucket } from "./types";
+
+// ---------------------------------------------------------------------------
+// Recency table editor — the editable form of the zoxide bucket table shown
+// under "How it works". Edits are kept as a draft; the draft only replaces
+// the active table once it validates, so an invalid table never reaches
+// ranking.
+// ---------------------------------------------------------------------------
+
+const UNITS: Array<[string, number]> = [
+	["weeks",   WEEK],
+	["days",    DAY],
+	["hours",   HOUR],
+	["minutes", MINUTE],
+];
+
+type Operator = "×" | "÷";
+
+interface DraftRow {
+	amount: string;
+	unit: number;
+	op: Operator;
+	factor: string;
+}
+
+function toDraft(bucket: RecencyBucket): DraftRow {
+	const [, unit] = UNITS.find(([, ms]) => bucket.within % ms === 0) ?? ["minutes", MINUTE];
+	return { amount: String(bucket.within / unit), unit, ...toFactor(bucket.multiplier) };
+}
+
+function toFactor(multiplier: number): { op: Operator; factor: string } {
+	if (multiplier >= 1 || multiplier === 0) return { op: "×", factor: String(multiplier) };
+	return { op: "÷", factor: String(Number((1 / multiplier).toFixed(4))) };
+}
+
+function fromFactor(op: Operator, factor: string): number {
+	const num = parseFloat(factor);
+	if (op === "×") return num;
+	return num === 0 ? NaN : 1 / num;
+}
+
+export function renderBucketEditor(parent: HTMLElement, plugin: ZoxidianPlugin): void {
+	const rows  = plugin.settings.recencyBuckets.map(toDraft);
+	const older = toFactor(plugin.settings.olderMultiplier);
+
+	const wrap    = parent.createEl("div", { cls: "zoxidian-bucket-editor" });
+	const errorEl = parent.createEl("p", { cls: "zoxidian-bucket-error zoxidian-hidden" });
+
+	const commit = async () => {
+		const buckets: RecencyBucket[] = rows.map(row => ({
+			within:     parseFloat(row.amount) * row.unit,
+			multiplier: fromFactor(row.op, row.factor),
+		}));
+		const olderMultiplier = fromFactor(older.op, older.factor);
+
+		const error = validateBuckets(buckets, olderMultiplier);
+		if (error) {
+			errorEl.setText(`Not applied — ${error}`);
+			errorEl.removeClass("zoxidian-hidden");
+			return;
+		}
+		errorEl.addClass("zoxidian-hidden");
+
+		plugin.settings.recencyBuckets  = buckets;
+		plugin.settings.olderMultiplier = olderMultiplier;
+		await plugin.persistData();
+		plugin.redrawViews();
+	};
+
+	const addOperator = (setting: Setting, target: { op: Operator; factor: string }) => {
+		setting
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("×", "×")
+					.addOption("÷", "÷")
+					.setValue(target.op)
+					.onChange(async (value) => {
+						target.op = value as Operator;
+						await commit();
+					})
+			)
+			.addText((text) => {
+				text.inputEl.addClass("zoxidian-bucket-number");
+				text
+					.setValue(target.factor)
+					.onChange(async (value) => {
+						target.factor = value;
+						await commit();
+					});
+			});
+	};
+
+	const render = () => {
+		wrap.empty();
+
+		rows.forEach((row, i) => {
+			const setting = new Setting(wrap).setName("Within").setClass("zoxidian-bucket-row");
+
+			setting
+				.addText((text) => {
+					text.inputEl.addClass("zoxidian-bucket-number");
+					text
+						.setValue(row.amount)
+						.onChange(async (value) => {
+							row.amount = value;
+							await commit();
+						});
+				})
+				.addDropdown((dropdown) => {
+					for (const [label, ms] of UNITS) dropdown.addOption(String(ms), label);
+					dropdown
+						.setValue(String(row.unit))
+						.onChange(async (value) => {
+							row.unit = Number(value);
+							await commit();
+						});
+				});
+
+			addOperator(setting, row);
+
+			setting
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("arrow-up")
+						.setTooltip("Move up")
+						.setDisabled(i === 0)
+						.onClick(async () => {
+							rows.splice(i - 1, 0, ...rows.splice(i, 1));
+							render();
+							await commit();
+						})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("arrow-down")
+						.setTooltip("Move down")
+						.setDisabled(i === rows.length - 1)
+						.onClick(async () => {
+							rows.splice(i + 1, 0, ...rows.splice(i, 1));
+							render();
+							await commit();
+						})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("trash")
+						.setTooltip("Remove bucket")
+						.onClick(async () => {
+							rows.splice(i, 1);
+							render();
+							await commit();
+						})
+				);
+		});
+
+		const olderSetting = new Setting(wrap).setName("Longer ago").setClass("zoxidian-bucket-row");
+		addOperator(olderSetting, older);
+
+		new Setting(wrap)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Add bucket")
+					.onClick(async () => {
+						const last = rows[rows.length - 1];
+						rows.push(last
+							? { amount: String(parseFloat(last.amount) * 2), unit: last.unit, op: last.op, factor: last.factor }
+							: { amount: "1", unit: HOUR, op: "×", factor: "1" });
+						render();
+						await commit();
+					})
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Reset to zoxide defaults")
+					.onClick(async () => {
+						rows.splice(0, rows.length, ...ZOXIDE_BUCKETS.map(toDraft));
+						Object.assign(older, toFactor(ZOXIDE_OLDER_MULTIPLIER));
+						render();
+						await commit();
+					})
+			);
+	};
+
+	render();
+}
@@ -0,0 +1,79 @@
+import type { FileEntry } from "./types";
+
+// ---------------------------------------------------------------------------
+// Context boost — raises notes that are habitually opened at this time:
+// standup notes in the morning, the weekly review on Fridays. It looks at
+// the stored visit log only:
+//
+//   hour share    = visits within ±1 hour of the current time of day
+//   weekday share = visits on the current weekday
+//
+// Each share is compared with what visits spread evenly over the day and
+// week would give (3/24 and 1/7), and only the lift above that counts:
+//
+//   multiplier = 1 + strength × (hour lift + weekday lift) / 2
+//
+// Notes with fewer than MIN_CONTEXT_VISITS visits are never boosted, so a
+// single visit does not turn into a habit. Times are local.
+// ---------------------------------------------------------------------------
+
+export const MIN_CONTEXT_VISITS = 3;
+/** Hours either side of the current hour that still count as "similar". */
+const HOUR_WINDOW = 1;
+const HOUR_BASELINE    = (2 * HOUR_WINDOW + 1) / 24;
+const WEEKDAY_BASELINE = 1 / 7;
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export interface ContextBoost {
+	/** Visits counted. */
+	sampleSize: number;
+	/** Visits within ±1 hour of the current time of day. */
+	hourMatches: number;
+	/** Visits on the current weekday. */
+	weekdayMatches: number;
+	/** Factor applied to the frecency; 1 means no boost. */
+	multiplier: number;
+}
+
+function hourDistance(a: number, b: number): number {
+	const diff = Math.abs(a - b);
+	return Math.min(diff, 24 - diff);
+}
+
+function lift(share: number, baseline: number): number {
+	return Math.max(0, (share - baseline) / (1 - baseline));
+}
+
+export function getContextBoost(entry: FileEntry, now: number, strength: number): ContextBoost {
+	const current = new Date(now);
+	const hour    = current.getHours();
+	const weekday = current.getDay();
+
+	let hourMatches = 0;
+	let weekdayMatches = 0;
+	for (const visit of entry.visits) {
+		const at = new Date(visit);
+		if (hourDistance(at.getHours(), hour) <= HOUR_WINDOW) hourMatches++;
+		if (at.getDay() === weekday) weekdayMatches++;
+	}
+
+	const sampleSize = entry.visits.length;
+	if (strength <= 0 || sampleSize < MIN_CONTEXT_VISITS) {
+		return { sampleSize, hourMatches, weekdayMatches, multiplier: 1 };
+	}
+
+	const hourLift    = lift(hourMatches / sampleSize, HOUR_BASELINE);
+	const weekdayLift = lift(weekdayMatches / sampleSize, WEEKDAY_BASELINE);
+	return { sampleSize, hourMatches, weekdayMatches, multiplier: 1 + strength * (hourLift + weekdayLift) / 2 };
+}
+
+/** One-line explanation for tooltips, or null when the note is not boosted. */
+export function describeContextBoost(boost: ContextBoost, now: number): string | null {
+	if (boost.multiplier <= 1) return null;
+	const current = new Date(now);
+	const time    = `${String(current.getHours()).padStart(2, "0")}:00`;
+	return `Boosted × ${boost.multiplier.toFixed(2)}: ` +
+		`${boost.hourMatches} of ${boost.sampleSize} visits around ${time}, ` +
+		`${boost.weekdayMatches} on ${WEEKDAYS[current.getDay()]}s`;
+}
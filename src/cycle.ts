@@ -0,0 +1,34 @@
+// ---------------------------------------------------------------------------
+// Ranking cycle — "open next / previous note in frecency order". Each step
+// opens a note, which records a visit and reshuffles the ranking, so the
+// cycle works on a snapshot taken at the first step. The snapshot is kept
+// while the active note is the one the cycle opened last; opening anything
+// else (or starting on a note the cycle did not open) takes a new one.
+// ---------------------------------------------------------------------------
+
+export const RANK_SHORTCUTS = 9;
+
+export class RankingCycle {
+	private snapshot: string[] | null = null;
+	private expected: string | null = null;
+
+	/**
+	 * The note `direction` steps away from `current`, wrapping around the
+	 * ranking. From a note outside the ranking, next starts at the top and
+	 * previous at the bottom. Returns null for an empty ranking.
+	 */
+	step(current: string | null, direction: 1 | -1, rank: () => string[]): string | null {
+		if (this.snapshot === null || current === null || current !== this.expected) {
+			this.snapshot = rank();
+		}
+		const paths = this.snapshot;
+		if (paths.length === 0) return null;
+
+		const index  = current === null ? -1 : paths.indexOf(current);
+		const target = index === -1
+			? (direction === 1 ? 0 : paths.length - 1)
+			: (index + direction + paths.length) % paths.length;
+		this.expected = paths[target] ?? null;
+		return this.expected;
+	}
+}
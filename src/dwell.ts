@@ -0,0 +1,129 @@
+// ---------------------------------------------------------------------------
+// Dwell tracking — a visit only counts once the note has been the active
+// note for `minDwellSeconds` of *active* time. Time only accrues while the
+// window has focus and the user has interacted within the idle timeout, so
+// flicking through notes or leaving a note open overnight does not inflate
+// scores. When the user leaves a counted note, an optional bonus
+// proportional to the active time spent in it is added on top.
+// ---------------------------------------------------------------------------
+
+export interface DwellOptions {
+	minDwellSeconds: number;
+	dwellBonusPerMinute: number;
+	idleTimeoutSeconds: number;
+}
+
+export interface DwellCallbacks {
+	/** Count the visit. Returns false when the visit was ignored (e.g. a tab switch). */
+	count(path: string, wasAlreadyOpen: boolean): boolean;
+	/** Add a time-based bonus to an already counted visit. */
+	bonus(path: string, amount: number): void;
+}
+
+/** Upper bound on the bonus a single visit can earn. */
+export const MAX_DWELL_BONUS = 5;
+
+interface PendingVisit {
+	path: string;
+	wasAlreadyOpen: boolean;
+	activeMs: number;
+	counted: boolean;
+}
+
+export class DwellTracker {
+	private pending: PendingVisit | null = null;
+	private lastTick = 0;
+	private lastActivity = 0;
+	private focused = true;
+
+	constructor(private getOptions: () => DwellOptions, private callbacks: DwellCallbacks) {}
+
+	get pendingPath(): string | null {
+		return this.pending?.path ?? null;
+	}
+
+	/** A note became active. Finishes the previous visit first. */
+	start(path: string, wasAlreadyOpen: boolean, now: number): void {
+		this.stop(now);
+		this.pending      = { path, wasAlreadyOpen, activeMs: 0, counted: false };
+		this.lastTick     = now;
+		this.lastActivity = now;
+		this.check();
+	}
+
+	/** The active note was closed or replaced. Applies the dwell bonus, if any. */
+	stop(now: number): void {
+		const pending = this.pending;
+		if (!pending) return;
+		this.accrue(now);
+		this.check();
+		this.pending = null;
+
+		const { dwellBonusPerMinute } = this.getOptions();
+		if (pending.counted && dwellBonusPerMinute > 0) {
+			const bonus = Math.min(MAX_DWELL_BONUS, (pending.activeMs / 60_000) * dwellBonusPerMinute);
+			if (bonus > 0) this.callbacks.bonus(pending.path, bonus);
+		}
+	}
+
+	tick(now: number): void {
+		this.accrue(now);
+		this.check();
+	}
+
+	activity(now: number): void {
+		this.accrue(now);
+		this.lastActivity = now;
+		this.check();
+	}
+
+	focus(now: number): void {
+		this.accrue(now);
+		this.focused      = true;
+		this.lastActivity = now;
+	}
+
+	blur(now: number): void {
+		this.accrue(now);
+		this.focused = false;
+	}
+
+	/** Keep a pending visit attached to its note across renames and folder moves. */
+	rename(oldPath: string, newPath: string): void {
+		const pending = this.pending;
+		if (!pending) return;
+		if (pending.path === oldPath) {
+			pending.path = newPath;
+		} else if (pending.path.startsWith(`${oldPath}/`)) {
+			pending.path = newPath + pending.path.slice(oldPath.length);
+		}
+	}
+
+	/** Drop a pending visit whose note (or parent folder) was deleted. */
+	remove(path: string): void {
+		const pending = this.pending;
+		if (pending && (pending.path === path || pending.path.startsWith(`${path}/`))) {
+			this.pending = null;
+		}
+	}
+
+	private accrue(now: number): void {
+		if (this.pending && this.focused) {
+			const idleMs      = this.getOptions().idleTimeoutSeconds * 1000;
+			const activeUntil = Math.min(now, this.lastActivity + idleMs);
+			if (activeUntil > this.lastTick) this.pending.activeMs += activeUntil - this.lastTick;
+		}
+		this.lastTick = now;
+	}
+
+	private check(): void {
+		const pending = this.pending;
+		if (!pending || pending.counted) return;
+		if (pending.activeMs < this.getOptions().minDwellSeconds * 1000) return;
+
+		pending.counted = this.callbacks.count(pending.path, pending.wasAlreadyOpen);
+		// An ignored visit (tab switch) is settled too — it must not earn a bonus
+		// or be retried on every tick.
+		if (!pending.counted) this.pending = null;
+	}
+}
@@ -0,0 +1,95 @@
+import { App, SuggestModal, TAbstractFile, TFile, TFolder, View, prepareFuzzySearch, renderMatches, Notice } from "obsidian";
+import type ZoxidianPlugin from "./main";
+import type { FolderRank } from "./folders";
+import { formatScore } from "./utils";
+
+type FolderSuggestion = FolderRank & { matches: [number, number][] | null };
+
+// The file explorer's reveal method is not part of the public API.
+type FileExplorerView = View & { revealInFolder?: (file: TAbstractFile) => void };
+
+export class ZoxidianFolderModal extends SuggestModal<FolderSuggestion> {
+	constructor(app: App, private plugin: ZoxidianPlugin) {
+		super(app);
+		this.setPlaceholder("Jump to folder…");
+		this.setInstructions([
+			{ command: "↑↓",     purpose: "navigate" },
+			{ command: "↵",      purpose: "reveal in file explorer" },
+			{ command: "ctrl ↵", purpose: "open most frecent note" },
+			{ command: "esc",    purpose: "dismiss" },
+		]);
+
+		// Route Ctrl+Enter through chooser so onChooseSuggestion receives the
+		// real event with modifier keys intact
+		const chooser = (this as unknown as SuggestModal<FolderSuggestion> & {
+			chooser: { useSelectedItem: (evt: KeyboardEvent) => void };
+		}).chooser;
+
+		this.scope.register(["Mod"], "Enter", (evt: KeyboardEvent) => {
+			chooser.useSelectedItem(evt);
+			return false;
+		});
+	}
+
+	getSuggestions(query: string): FolderSuggestion[] {
+		const all = this.plugin.getFolderRanking()
+			.map(rank => ({ ...rank, matches: null as [number, number][] | null }));
+
+		const q = query.trim();
+		if (!q) return all;
+		const fuzzy = prepareFuzzySearch(q);
+		return all
+			.map(e => ({ ...e, matches: fuzzy(e.path)?.matches ?? null }))
+			.filter(e => e.matches !== null);
+	}
+
+	renderSuggestion({ path, frecency, noteCount, matches }: FolderSuggestion, el: HTMLElement): void {
+		const row = el.createEl("div", { cls: "zoxidian-suggestion" });
+
+		const info = row.createEl("div", { cls: "zoxidian-suggestion-info" });
+		renderMatches(info.createEl("span", { cls: "suggestion-title" }), path, matches);
+
+		const badges = row.createEl("div", { cls: "zoxidian-badges" });
+		if (this.plugin.settings.showFrecencyBadge) {
+			badges.createEl("span", {
+				cls: "zoxidian-badge zoxidian-badge-frecency",
+				text: formatScore(frecency),
+			});
+		}
+		badges.createEl("span", {
+			cls: "zoxidian-badge zoxidian-badge-base",
+			text: `${noteCount} note${noteCount === 1 ? "" : "s"}`,
+		});
+	}
+
+	onChooseSuggestion({ path, topNote }: FolderSuggestion, evt: MouseEvent | KeyboardEvent): void {
+		const folder = this.app.vault.getAbstractFileByPath(path);
+		if (!(folder instanceof TFolder)) {
+			new Notice(`Folder "${path}" no longer exists.`);
+			return;
+		}
+
+		this.plugin.recordFolderVisit(path);
+
+		if (evt.ctrlKey || evt.metaKey) {
+			const note = topNote ? this.app.vault.getAbstractFileByPath(topNote) : null;
+			if (note instanceof TFile) {
+				void this.app.workspace.getLeaf(false).openFile(note);
+				return;
+			}
+		}
+
+		revealInFileExplorer(this.app, folder);
+	}
+}
+
+export function revealInFileExplorer(app: App, folder: TFolder): void {
+	const leaf = app.workspace.getLeavesOfType("file-explorer")[0];
+	const view = leaf?.view as FileExplorerView | undefined;
+	if (!leaf || typeof view?.revealInFolder !== "function") {
+		new Notice("The file explorer is not available.");
+		return;
+	}
+	void app.workspace.revealLeaf(leaf);
+	view.revealInFolder(folder);
+}
@@ -0,0 +1,106 @@
+import { getFrecency } from "./frecency";
+import type { FileEntry, ScoringOptions } from "./types";
+import { mergeEntries } from "./visits";
+
+// ---------------------------------------------------------------------------
+// Folder frecency — zoxide ranks directories, so folders get a rolled-up
+// score: the frecency of every tracked note below a folder plus any direct
+// visits to the folder itself (or its subfolders) made through the
+// "jump to folder" modal. Nothing is cached; ranking is derived from the
+// `files` and `folders` maps on demand, so renames only need to keep those
+// maps consistent.
+// ---------------------------------------------------------------------------
+
+export interface FolderRank {
+	path: string;
+	/** Sum of direct and descendant frecency. */
+	frecency: number;
+	/** Sum of direct and descendant base scores. */
+	score: number;
+	/** Number of tracked notes below this folder. */
+	noteCount: number;
+	/** Most frecent tracked note below this folder. */
+	topNote: string | null;
+}
+
+/** Every ancestor folder of a path, outermost first. The vault root is skipped. */
+export function parentFolders(path: string): string[] {
+	const parts = path.split("/").slice(0, -1);
+	return parts.map((_, i) => parts.slice(0, i + 1).join("/"));
+}
+
+export function rollUpFolders(
+	notes: ReadonlyArray<{ path: string; entry: FileEntry; frecency: number }>,
+	folders: Record<string, FileEntry>,
+	options: ScoringOptions,
+	now = Date.now(),
+): FolderRank[] {
+	const ranks = new Map<string, FolderRank & { topFrecency: number }>();
+	const rankFor = (path: string) => {
+		let rank = ranks.get(path);
+		if (!rank) {
+			rank = { path, frecency: 0, score: 0, noteCount: 0, topNote: null, topFrecency: -1 };
+			ranks.set(path, rank);
+		}
+		return rank;
+	};
+
+	for (const { path, entry, frecency } of notes) {
+		for (const folder of parentFolders(path)) {
+			const rank = rankFor(folder);
+			rank.frecency  += frecency;
+			rank.score     += entry.score;
+			rank.noteCount += 1;
+			if (frecency > rank.topFrecency) {
+				rank.topFrecency = frecency;
+				rank.topNote     = path;
+			}
+		}
+	}
+
+	for (const [path, entry] of Object.entries(folders)) {
+		const frecency = getFrecency(entry, now, options);
+		for (const folder of [...parentFolders(path), path]) {
+			const rank = rankFor(folder);
+			rank.frecency += frecency;
+			rank.score    += entry.score;
+		}
+	}
+
+	return [...ranks.values()]
+		.map(({ topFrecency: _, ...rank }) => rank)
+		.sort((a, b) => b.frecency - a.frecency);
+}
+
+/**
+ * Move every key equal to `oldPrefix` or below it to the same place under
+ * `newPrefix`, merging with entries that already exist at the destination.
+ * Returns true when anything moved.
+ */
+export function movePrefix(map: Record<string, FileEntry>, oldPrefix: string, newPrefix: string, cap: number): boolean {
+	let moved = false;
+	for (const path of Object.keys(map)) {
+		if (path !== oldPrefix && !path.startsWith(`${oldPrefix}/`)) continue;
+		const entry = map[path];
+		if (!entry) continue;
+
+		const target   = newPrefix + path.slice(oldPrefix.length);
+		const existing = map[target];
+		map[target] = existing ? mergeEntries(existing, entry, cap) : entry;
+		delete map[path];
+		moved = true;
+	}
+	return moved;
+}
+
+/** Delete every key equal to `prefix` or below it. Returns true when anything was removed. */
+export function deletePrefix(map: Record<string, unknown>, prefix: string): boolean {
+	let removed = false;
+	for (const path of Object.keys(map)) {
+		if (path === prefix || path.startsWith(`${prefix}/`)) {
+			delete map[path];
+			removed = true;
+		}
+	}
+	return removed;
+}
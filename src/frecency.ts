@@ -1,4 +1,27 @@
-import type { FileEntry } from "./types";
+import type { FileEntry, RecencyBucket, ScoringOptions, ScoringStrategy } from "./types";
+import { trimVisits } from "./visits";
+import { getContextBoost } from "./context";
+
+export const MINUTE = 60 * 1000;
+export const HOUR   = 60 * MINUTE;
+export const DAY    = 24 * HOUR;
+export const WEEK   = 7  * DAY;
+
+/** The stock zoxide recency table. */
+export const ZOXIDE_BUCKETS: readonly RecencyBucket[] = [
+	{ within: HOUR, multiplier: 4 },
+	{ within: DAY,  multiplier: 2 },
+	{ within: WEEK, multiplier: 0.5 },
+];
+export const ZOXIDE_OLDER_MULTIPLIER = 0.25;
+
+export const DEFAULT_SCORING: ScoringOptions = {
+	scoringStrategy: "zoxide",
+	halfLifeHours: 72,
+	recencyBuckets: ZOXIDE_BUCKETS.map(b => ({ ...b })),
+	olderMultiplier: ZOXIDE_OLDER_MULTIPLIER,
+	contextStrength: 0,
+};
 
 // ---------------------------------------------------------------------------
 // Aging — mirrors the zoxide aging mechanic:
@@ -7,25 +30,67 @@ import type { FileEntry } from "./types";
 //   down proportionally so the total equals maxAge. Entries whose score
 //   drops below 1 are pruned — they have become irrelevant relative to
 //   everything else.
+//
+//   Aging is also the maintenance pass for visit logs: when a cap is given,
+//   logs longer than the cap (e.g. after the cap was lowered) are trimmed.
 // ---------------------------------------------------------------------------
 
-export function applyAging(files: Record<string, FileEntry>, maxAge: number): void {
-	if (maxAge <= 0) return;
+export interface AgingOptions {
+	/** Trim every visit log to at most this many timestamps. */
+	visitLogSize?: number;
+	/** Paths that are scaled like the rest but never pruned (pinned notes). */
+	keep?: ReadonlySet<string>;
+	/** Called with each pruned path. */
+	onPrune?: (path: string) => void;
+}
+
+export function applyAging(files: Record<string, FileEntry>, maxAge: number, options: AgingOptions = {}): boolean {
+	const { visitLogSize, keep, onPrune } = options;
+	if (visitLogSize !== undefined) {
+		for (const entry of Object.values(files)) {
+			entry.visits = trimVisits(entry.visits, visitLogSize);
+		}
+	}
+
+	if (maxAge <= 0) return false;
 	const total = Object.values(files).reduce((sum, e) => sum + e.score, 0);
-	if (total <= maxAge) return;
+	if (total <= maxAge) return false;
 
 	const scale = (maxAge * 0.9) / total;
 	for (const path of Object.keys(files)) {
 		const entry = files[path];
 		if (entry) {
 			entry.score *= scale;
-			if (entry.score < 1) delete files[path];
+			if (entry.score < 1 && !keep?.has(path)) {
+				delete files[path];
+				onPrune?.(path);
+			}
 		}
 	}
+	return true;
+}
+
+// ---------------------------------------------------------------------------
+// Frecency calculation — dispatches to the configured scoring strategy, then
+// applies the optional context boost (see context.ts).
+// ---------------------------------------------------------------------------
+
+export function getFrecency(entry: FileEntry, now = Date.now(), options: ScoringOptions = DEFAULT_SCORING): number {
+	const frecency = getStrategyFrecency(entry, now, options);
+	if (options.contextStrength <= 0) return frecency;
+	return frecency * getContextBoost(entry, now, options.contextStrength).multiplier;
+}
+
+function getStrategyFrecency(entry: FileEntry, now: number, options: ScoringOptions): number {
+	switch (options.scoringStrategy) {
+		case "decay":   return getDecayFrecency(entry, now, options.halfLifeHours);
+		case "firefox": return getFirefoxFrecency(entry, now);
+		default:        return getZoxideFrecency(entry, now, options.recencyBuckets, options.olderMultiplier);
+	}
 }
 
 // ---------------------------------------------------------------------------
-// Frecency calculation — mirrors the zoxide weighting table:
+// zoxide — walks the recency table; defaults mirror the zoxide weighting:
 //
 //   Last access          | Multiplier
 //   ---------------------|----------
@@ -35,14 +100,100 @@ export function applyAging(files: Record<string, FileEntry>, maxAge: number): vo
 //   Otherwise            |  ÷ 4
 // ---------------------------------------------------------------------------
 
-export function getFrecency(entry: FileEntry, now = Date.now()): number {
+export function getZoxideFrecency(
+	entry: FileEntry,
+	now = Date.now(),
+	buckets: readonly RecencyBucket[] = ZOXIDE_BUCKETS,
+	olderMultiplier = ZOXIDE_OLDER_MULTIPLIER,
+): number {
 	const elapsed = now - entry.lastAccess;
-	const HOUR = 60 * 60 * 1000;
-	const DAY  = 24 * HOUR;
-	const WEEK = 7  * DAY;
 
-	if (elapsed < HOUR)  return entry.score * 4;
-	if (elapsed < DAY)   return entry.score * 2;
-	if (elapsed < WEEK)  return entry.score / 2;
-	return entry.score / 4;
+	for (const bucket of buckets) {
+		if (elapsed < bucket.within) return entry.score * bucket.multiplier;
+	}
+	return entry.score * olderMultiplier;
 }
+
+/**
+ * Check a recency table before it is used for ranking. Returns a
+ * human-readable reason when the table is invalid, otherwise null.
+ */
+export function validateBuckets(buckets: readonly RecencyBucket[], olderMultiplier: number): string | null {
+	let previous = 0;
+	for (const [i, bucket] of buckets.entries()) {
+		if (!isFinite(bucket.within) || bucket.within <= 0) {
+			return `Row ${i + 1}: the time threshold must be a positive number.`;
+		}
+		if (bucket.within <= previous) {
+			return `Row ${i + 1}: thresholds must increase from top to bottom.`;
+		}
+		if (!isFinite(bucket.multiplier) || bucket.multiplier < 0) {
+			return `Row ${i + 1}: the multiplier must not be negative.`;
+		}
+		previous = bucket.within;
+	}
+	if (!isFinite(olderMultiplier) || olderMultiplier < 0) {
+		return "The multiplier for older visits must not be negative.";
+	}
+	return null;
+}
+
+// ---------------------------------------------------------------------------
+// Exponential decay — the score halves every `halfLifeHours` since the last
+// visit. Scaled by 4 so a note opened just now ranks the same as it would
+// in zoxide's "within the last hour" bucket.
+// ---------------------------------------------------------------------------
+
+export function getDecayFrecency(entry: FileEntry, now = Date.now(), halfLifeHours = DEFAULT_SCORING.halfLifeHours): number {
+	const elapsed  = Math.max(0, now - entry.lastAccess);
+	const halfLife = Math.max(halfLifeHours, 0.01) * HOUR;
+	return entry.score * 4 * Math.pow(0.5, elapsed / halfLife);
+}
+
+// ---------------------------------------------------------------------------
+// Firefox-style — each sampled visit gets a weight from the bucket its age
+// falls into; the frecency is the base score times the average weight.
+//
+//   Visit age            | Weight
+//   ---------------------|-------
+//   Within 4 days        |  100
+//   Within 14 days       |   70
+//   Within 31 days       |   50
+//   Within 90 days       |   30
+//   Otherwise            |   10
+//
+// Weights are divided by 25 so a fresh visit scores × 4, like zoxide.
+// ---------------------------------------------------------------------------
+
+export const FIREFOX_BUCKETS: ReadonlyArray<readonly [number, number]> = [
+	[4  * DAY, 100],
+	[14 * DAY,  70],
+	[31 * DAY,  50],
+	[90 * DAY,  30],
+];
+export const FIREFOX_DEFAULT_WEIGHT = 10;
+/** Maximum number of recent visits sampled per entry. */
+export const FIREFOX_SAMPLE_SIZE = 10;
+
+export function getVisitSample(entry: FileEntry): number[] {
+	return entry.visits.length > 0 ? entry.visits : [entry.lastAccess];
+}
+
+export function getFirefoxFrecency(entry: FileEntry, now = Date.now()): number {
+	const sample = getVisitSample(entry).slice(-FIREFOX_SAMPLE_SIZE);
+	if (sample.length === 0) return 0;
+
+	let total = 0;
+	for (const visit of sample) {
+		const age = now - visit;
+		const bucket = FIREFOX_BUCKETS.find(([limit]) => age < limit);
+		total += bucket ? bucket[1] : FIREFOX_DEFAULT_WEIGHT;
+	}
+	return entry.score * (total / sample.length) / 25;
+}
+
+export const STRATEGY_LABELS: Record<ScoringStrategy, string> = {
+	zoxide:  "Classic zoxide",
+	decay:   "Exponential decay",
+	firefox: "Firefox-style",
+};
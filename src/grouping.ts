@@ -0,0 +1,78 @@
+import type { FileEntry } from "./types";
+
+// ---------------------------------------------------------------------------
+// Sidebar grouping — splits the frecency list into collapsible sections,
+// either by when a note was last opened (Today / Yesterday / This week /
+// Older, by local calendar day) or by its parent folder. Grouping never
+// reorders notes: each group keeps the frecency order of its members, and
+// folder groups are ordered by their most frecent note.
+// ---------------------------------------------------------------------------
+
+export type GroupMode = "none" | "recency" | "folder";
+
+export const GROUP_MODE_LABELS: Record<GroupMode, string> = {
+	none:    "No grouping",
+	recency: "By recency",
+	folder:  "By folder",
+};
+
+export interface EntryGroup<T> {
+	/** Stable id used to remember collapsed groups: the recency bucket or the folder path. */
+	key: string;
+	label: string;
+	items: T[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RECENCY_GROUPS = [
+	{ key: "today",     label: "Today" },
+	{ key: "yesterday", label: "Yesterday" },
+	{ key: "week",      label: "This week" },
+	{ key: "older",     label: "Older" },
+] as const;
+
+function recencyKey(lastAccess: number, now: number): string {
+	const today = new Date(now);
+	today.setHours(0, 0, 0, 0);
+	const start = today.getTime();
+	if (lastAccess >= start) return "today";
+	if (lastAccess >= start - DAY_MS) return "yesterday";
+	if (lastAccess >= start - 6 * DAY_MS) return "week";
+	return "older";
+}
+
+function folderOf(path: string): string {
+	const slash = path.lastIndexOf("/");
+	return slash === -1 ? "" : path.slice(0, slash);
+}
+
+/** Split `items` (already in frecency order) into groups; empty groups are dropped. */
+export function groupEntries<T extends { path: string; entry: FileEntry }>(
+	items: readonly T[],
+	mode: GroupMode,
+	now = Date.now(),
+): Array<EntryGroup<T>> {
+	if (mode === "none") return [{ key: "all", label: "", items: [...items] }];
+
+	const groups = new Map<string, EntryGroup<T>>();
+	if (mode === "recency") {
+		for (const { key, label } of RECENCY_GROUPS) groups.set(key, { key, label, items: [] });
+	}
+
+	for (const item of items) {
+		const key = mode === "recency" ? recencyKey(item.entry.lastAccess, now) : folderOf(item.path);
+		let group = groups.get(key);
+		if (!group) {
+			group = { key, label: folderOf(item.path) || "/", items: [] };
+			groups.set(key, group);
+		}
+		group.items.push(item);
+	}
+
+	return [...groups.values()].filter(g => g.items.length > 0);
+}
+
+export function normalizeGroupMode(raw: unknown): GroupMode {
+	return raw === "recency" || raw === "folder" ? raw : "none";
+}
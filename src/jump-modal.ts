@@ -0,0 +1,56 @@
+import { App, Modal, Setting } from "obsidian";
+import type ZoxidianPlugin from "./main";
+
+// ---------------------------------------------------------------------------
+// Prompt for the "Jump to best match" command: type zoxide keywords, press
+// Enter, and the plugin opens the best match (or the search modal when the
+// match is ambiguous).
+// ---------------------------------------------------------------------------
+
+export class JumpQueryModal extends Modal {
+	constructor(app: App, private plugin: ZoxidianPlugin) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.setTitle("Jump to best match");
+
+		let query = "";
+		const submit = () => {
+			if (!query.trim()) return;
+			this.close();
+			this.plugin.jump(query);
+		};
+
+		new Setting(contentEl)
+			.setName("Keywords")
+			.setDesc("In path order, the last one in the note name.")
+			.addText((text) => {
+				text
+					.setPlaceholder("Projects plan")
+					.onChange((value) => { query = value; });
+				text.inputEl.addEventListener("keydown", (e: KeyboardEvent) => {
+					if (e.key === "Enter") submit();
+				});
+			});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Cancel")
+					.onClick(() => this.close())
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Jump")
+					.setCta()
+					.onClick(submit)
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
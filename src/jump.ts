@@ -0,0 +1,32 @@
+import type { PaneType } from "obsidian";
+import { matchZoxideQuery, parseZoxideQuery } from "./query";
+
+// ---------------------------------------------------------------------------
+// Direct jump — zoxide's `z foo`: open the best match without a list to pick
+// from. Candidates are matched with zoxide's keyword rules (see query.ts) and
+// the most frecent match wins, but only when it clearly leads: unless it is
+// the only match or at least JUMP_LEAD times as frecent as the runner-up, the
+// jump is ambiguous and the caller shows the search modal instead.
+// ---------------------------------------------------------------------------
+
+export const JUMP_LEAD = 2;
+
+/** Where a jump opens its note, from the URI's `mode` parameter. */
+export function parsePaneType(raw: string | undefined): PaneType | undefined {
+	return raw === "tab" || raw === "split" || raw === "window" ? raw : undefined;
+}
+
+/**
+ * The note `query` jumps to, from `ranked` (highest frecency first), or null
+ * when nothing matches or the best match does not clearly lead.
+ */
+export function pickJumpTarget(query: string, ranked: readonly { path: string; frecency: number }[]): string | null {
+	const parsed = parseZoxideQuery(query);
+	if (parsed.keywords.length === 0 || parsed.foldersOnly) return null;
+
+	const matches = ranked.filter(r => matchZoxideQuery(parsed, r.path) !== null);
+	const [best, runnerUp] = matches;
+	if (!best) return null;
+	if (runnerUp && best.frecency < runnerUp.frecency * JUMP_LEAD) return null;
+	return best.path;
+}
@@ -1,13 +1,82 @@
-import { FileView, Plugin, TFile } from "obsidian";
+import { FileView, MarkdownView, Notice, PaneType, Plugin, TFile, TFolder, getAllTags, normalizePath } from "obsidian";
 import { DEFAULT_SETTINGS, ZoxidianSettingTab, ZoxidianSettings } from "./settings";
 import { ZoxidianSearchModal } from "./modal";
+import { ZoxidianFolderModal } from "./folder-modal";
+import { deletePrefix, FolderRank, movePrefix, rollUpFolders } from "./folders";
 import { VIEW_TYPE_ZOXIDIAN, FileEntry } from "./types";
-import { applyAging, getFrecency } from "./frecency";
+import { AgingOptions, applyAging, DEFAULT_SCORING, getFrecency, validateBuckets } from "./frecency";
 import { debounce } from "./utils";
+import { DwellTracker } from "./dwell";
+import { copyEntry, mergeEntries, normalizeFiles, pushVisit, trimVisits } from "./visits";
 import { ZoxidianView } from "./view";
+import { applyImport, FORMAT_EXTENSIONS, FORMAT_LABELS, ImportMode, serializeDatabase, TransferFormat } from "./transfer";
+import { ImportFileModal } from "./transfer-modal";
+import { buildSeedEntries } from "./seed";
+import { mergeShards, mergeTransitions, patchMergedEntry, pruneTombstones, Shard, shardProfile, Tombstone } from "./shards";
+import { ShardStore } from "./shard-store";
+import { describeContextBoost, getContextBoost } from "./context";
+import { RankedEntry, RankedIndex } from "./ranked-index";
+import { RANK_SHORTCUTS, RankingCycle } from "./cycle";
+import { parsePaneType, pickJumpTarget } from "./jump";
+import { JumpQueryModal } from "./jump-modal";
+import { createApi, ZoxidianApi } from "./api";
+import {
+	moveSections, normalizeSubpath, parseSectionKey, reconcileHeadings, removeSections, renameSection, sectionAtLine,
+	sectionKey,
+} from "./sections";
+import {
+	ageTransitions, getSuccessors, normalizeTransitions, recordTransition, removeFromTransitions, renameInTransitions,
+	Transitions,
+} from "./transitions";
+import { ProfileDeleteModal, ProfileNameModal, ProfileSwitchModal } from "./profile-modal";
+import { movePin, normalizePins, removePins, renamePins } from "./pins";
+import {
+	compileRules, CompiledRules, ExclusionRule, isExcluded, migrateExcludePaths, normalizeRules, NoteMeta, RuleScope,
+} from "./rules";
+import {
+	cloneProfileData, DEFAULT_PROFILE_ID, emptyProfileData, newProfileId, normalizeProfileData,
+	normalizeProfiles, ProfileData, profileForPath,
+} from "./profiles";
 
-interface PersistedData {
+/** Quiet period after which a new edit starts a new editing session. */
+export const EDIT_SESSION_GAP_MS = 5 * 60 * 1000;
+
+/** How many notes the "Likely next" and "Usually opened next" sections list. */
+const LIKELY_NEXT_COUNT = 5;
+
+/** How often other devices' shards are checked for changes. */
+const SHARD_POLL_MS = 30 * 1000;
+
+/**
+ * How long the ranked index is reused before every frecency is recomputed,
+ * so recency buckets, decay and the context boost keep up with the clock.
+ */
+const RANKING_REFRESH_MS = 60 * 1000;
+const DEVICE_ID_KEY = "zoxidian-device-id";
+/**
+ * Delay before the section in view is read after a counted visit; Obsidian
+ * scrolls to a link's heading or block only once the note has opened.
+ */
+const SECTION_SETTLE_MS = 1000;
+
+/** What a bulk removal took out, so it can be put back. */
+export interface RemovedEntries {
+	profile: string;
 	files: Record<string, FileEntry>;
+	/** Tombstones the removal replaced, or null where there was none. */
+	tombstones: Record<string, Tombstone | null>;
+}
+
+interface PersistedData {
+	// With sync-safe storage on, files and folders live in the device shards
+	// instead and are omitted here.
+	// `files`/`folders`/`sections` belong to the default profile, `profileData` to the others.
+	files?: Record<string, FileEntry>;
+	folders?: Record<string, FileEntry>;
+	sections?: Record<string, FileEntry>;
+	profileData?: Record<string, ProfileData>;
+	pinned?: string[];
+	transitions?: Transitions;
 	settings: ZoxidianSettings;
 }
 
@@ -17,11 +86,80 @@ interface PersistedData {
 
 export default class ZoxidianPlugin extends Plugin {
 	settings: ZoxidianSettings = { ...DEFAULT_SETTINGS };
-	files: Record<string, FileEntry> = {};
+	/** The public API for other plugins and scripts; see api.ts. */
+	readonly api: ZoxidianApi = createApi(this);
+	// Visit maps per profile. `files` and `folders` below are the active
+	// profile's maps; recording and ranking only ever touch those.
+	private profileData: Record<string, ProfileData> = { [DEFAULT_PROFILE_ID]: emptyProfileData() };
+	/** Pinned note paths, in display order. */
+	pinned: string[] = [];
+	/** How often each note was visited right after another. */
+	transitions: Transitions = {};
+	// The previous counted visit, the source of the next transition.
+	private lastVisitedPath: string | null = null;
+	// The most recent removal from the list, for "Undo".
+	private lastRemoval: RemovedEntries | null = null;
+	// Sync-safe storage: `files`/`folders` hold this device's contributions,
+	// other devices' shards are kept read-only, and ranking uses the merge.
+	private shardStore: ShardStore | null = null;
+	private remoteShards: Shard[] = [];
+	private tombstones: Record<string, Tombstone> = {};
+	private resetAt = 0;
+	// Merged shard data per profile, valid while its generation matches
+	// mergeGeneration. Anything that changes what a merge would return bumps
+	// the counter; visits, edits and dwell bonuses patch the cache instead.
+	private mergeGeneration = 0;
+	private mergedCache = new Map<string, { generation: number; data: ProfileData }>();
+	private mergedTransitions: { generation: number; data: Transitions } | null = null;
+	// Unreadable shard files already reported, so polling does not repeat the notice.
+	private reportedShards = new Set<string>();
+	private compiledRules: CompiledRules = compileRules([]);
+	// Frecency order of the active notes, and what it was computed from.
+	// Visits re-rank one entry; anything else makes the next read rebuild.
+	private ranking = new RankedIndex();
+	private rankedAt = 0;
+	private rankedFiles: Record<string, FileEntry> | null = null;
+	private rankedRules: CompiledRules | null = null;
+	private rankedOptions = "";
+	private cycle = new RankingCycle();
 	private debouncedPersist!: () => void;
+
 	// Snapshot of open-path counts from the previous workspace state. This is
 	// used to decide whether a file-open is a fresh open or a tab switch.
 	private openPathCounts = new Map<string, number>();
+	// Time of the latest edit per note, for edit-session debouncing.
+	private lastEditAt = new Map<string, number>();
+	// Heading list of each note as last seen, to spot renamed headings.
+	private headingSnapshots = new Map<string, string[]>();
+	// Pending recordSectionInView after a counted visit; cleared when the leaf changes.
+	private sectionTimer: number | null = null;
+	// Holds the active note until it has been looked at long enough to count.
+	private dwell = new DwellTracker(() => this.settings, {
+		count: (path, wasAlreadyOpen) => {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			const counted = file instanceof TFile && this.recordVisit(file, wasAlreadyOpen);
+			if (counted && this.settings.trackSections) {
+				this.cancelSectionTimer();
+				this.sectionTimer = this.mainWindow.setTimeout(() => {
+					this.sectionTimer = null;
+					this.recordSectionInView(path);
+				}, SECTION_SETTLE_MS);
+			}
+			return counted;
+		},
+		bonus: (path, amount) => this.addDwellBonus(path, amount),
+	});
+
+	get files(): Record<string, FileEntry> { return this.activeData().files; }
+	set files(files: Record<string, FileEntry>) { this.activeData().files = files; }
+
+	// Direct folder visits made through the folder modal. Note visits are
+	// rolled up into folder ranks on demand and never stored here.
+	get folders(): Record<string, FileEntry> { return this.activeData().folders; }
+	set folders(folders: Record<string, FileEntry>) { this.activeData().folders = folders; }
+
+	// Heading and block visits, when section tracking is on.
+	get sections(): Record<string, FileEntry> { return this.activeData().sections; }
 
 	// -------------------------------------------------------------------------
 	// Lifecycle
@@ -44,12 +182,158 @@ export default class ZoxidianPlugin extends Plugin {
 			callback: () => this.activateView(),
 		});
 
+		this.addCommand({
+			id:   "focus-panel",
+			name: "Focus panel",
+			callback: () => void this.focusView(),
+		});
+
+		this.addCommand({
+			id:   "focus-filter",
+			name: "Focus panel filter",
+			callback: () => void this.focusViewFilter(),
+		});
+
 		this.addCommand({
 			id:   "search-notes",
 			name: "Search recent notes",
 			callback: () => new ZoxidianSearchModal(this.app, this).open(),
 		});
 
+		this.addCommand({
+			id:   "jump-to-best-match",
+			name: "Jump to best match",
+			callback: () => new JumpQueryModal(this.app, this).open(),
+		});
+
+		// obsidian://zoxidian?query=foo%20bar&mode=tab jumps like `z foo bar`;
+		// obsidian://zoxidian-search?query=… always shows the search modal.
+		this.registerObsidianProtocolHandler("zoxidian", (params) => {
+			this.jump(params.query ?? "", parsePaneType(params.mode));
+		});
+		this.registerObsidianProtocolHandler("zoxidian-search", (params) => {
+			new ZoxidianSearchModal(this.app, this, { query: params.query, paneType: parsePaneType(params.mode) }).open();
+		});
+
+		this.addCommand({
+			id:   "open-usual-next",
+			name: "Open the note usually opened next",
+			checkCallback: (checking) => {
+				const active = this.app.workspace.getActiveFile();
+				const next   = active ? this.getSuccessorEntries(active.path, 1)[0] : undefined;
+				const file   = next ? this.app.vault.getAbstractFileByPath(next.path) : null;
+				if (!(file instanceof TFile)) return false;
+				if (!checking) void this.app.workspace.getLeaf(false).openFile(file);
+				return true;
+			},
+		});
+
+		for (let n = 1; n <= RANK_SHORTCUTS; n++) {
+			this.addCommand({
+				id:   `open-frecent-${n}`,
+				name: `Open frecent note #${n}`,
+				checkCallback: (checking) => {
+					const path = this.getRankedPaths()[n - 1];
+					if (path === undefined) return false;
+					if (!checking) this.openPath(path);
+					return true;
+				},
+			});
+		}
+
+		this.addCommand({
+			id:   "open-next-frecent",
+			name: "Open next note in frecency order",
+			callback: () => this.cycleRanking(1),
+		});
+
+		this.addCommand({
+			id:   "open-previous-frecent",
+			name: "Open previous note in frecency order",
+			callback: () => this.cycleRanking(-1),
+		});
+
+		this.addCommand({
+			id:   "undo-remove",
+			name: "Undo last removal from the list",
+			checkCallback: (checking) => {
+				if (!this.canUndoRemoval()) return false;
+				if (!checking) this.undoRemoval();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id:   "toggle-pin",
+			name: "Pin or unpin active note",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) return false;
+				if (!checking) this.setPinned(file.path, !this.isPinned(file.path));
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id:   "switch-profile",
+			name: "Switch profile",
+			callback: () => new ProfileSwitchModal(this.app, this).open(),
+		});
+
+		this.addCommand({
+			id:   "create-profile",
+			name: "Create profile",
+			callback: () => new ProfileNameModal(this.app, "Create profile", "", (name) => {
+				this.createProfile(name);
+			}).open(),
+		});
+
+		this.addCommand({
+			id:   "rename-profile",
+			name: "Rename active profile",
+			callback: () => new ProfileNameModal(this.app, "Rename profile", this.getActiveProfileName(), (name) => {
+				this.renameProfile(this.settings.activeProfile, name);
+			}).open(),
+		});
+
+		this.addCommand({
+			id:   "duplicate-profile",
+			name: "Duplicate active profile",
+			callback: () => new ProfileNameModal(this.app, "Duplicate profile", `${this.getActiveProfileName()} copy`, (name) => {
+				this.createProfile(name, this.settings.activeProfile);
+			}).open(),
+		});
+
+		this.addCommand({
+			id:   "delete-profile",
+			name: "Delete active profile",
+			checkCallback: (checking) => {
+				if (this.settings.activeProfile === DEFAULT_PROFILE_ID) return false;
+				if (!checking) new ProfileDeleteModal(this.app, this, this.settings.activeProfile).open();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id:   "jump-to-folder",
+			name: "Jump to folder",
+			callback: () => new ZoxidianFolderModal(this.app, this).open(),
+		});
+
+		for (const format of Object.keys(FORMAT_EXTENSIONS) as TransferFormat[]) {
+			this.addCommand({
+				id:   `export-${format}`,
+				name: `Export database as ${FORMAT_LABELS[format]}`,
+				callback: () => { void this.exportDatabase(format); },
+			});
+		}
+
+		this.addCommand({
+			id:   "import-database",
+			name: "Import database",
+			callback: () => new ImportFileModal(this.app, this).open(),
+		});
+
 		// Seed previous open-path snapshot from whatever is open at load time.
 		this.rebuildOpenPathCounts();
 
@@ -59,37 +343,113 @@ export default class ZoxidianPlugin extends Plugin {
 			})
 		);
 
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", () => this.cancelSectionTimer())
+		);
+
 		this.registerEvent(
 			this.app.workspace.on("file-open", (file) => {
-				if (!(file instanceof TFile)) return;
+				if (!(file instanceof TFile)) {
+					this.dwell.stop(Date.now());
+					return;
+				}
 				const wasAlreadyOpen = (this.openPathCounts.get(file.path) ?? 0) > 0;
 				this.rebuildOpenPathCounts();
-				this.recordVisit(file, wasAlreadyOpen);
+				const profile = profileForPath(this.settings.profiles, file.path);
+				if (profile) this.switchProfile(profile);
+				if (this.settings.trackSections) this.snapshotHeadings(file.path);
+				this.dwell.start(file.path, wasAlreadyOpen, Date.now());
+			})
+		);
+
+		// Dwell time only accrues while a window is focused and not idle;
+		// popout windows get the same listeners as the main one.
+		const { win, doc } = this.app.workspace.rootSplit;
+		this.watchActivity(win, doc);
+		this.registerEvent(
+			this.app.workspace.on("window-open", (popout) => this.watchActivity(popout.win, popout.doc))
+		);
+		this.registerInterval(this.mainWindow.setInterval(() => this.dwell.tick(Date.now()), 1000));
+
+		this.registerEvent(
+			// Only typing in a focused editor is an edit; sync, other plugins and
+			// background writes also modify files but are not the user editing.
+			this.app.workspace.on("editor-change", (editor, info) => {
+				if (info.file && editor.hasFocus()) this.recordEdit(info.file);
+			})
+		);
+
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file, _data, cache) => {
+				if (this.settings.trackSections) this.reconcileSections(file.path, (cache.headings ?? []).map(h => h.heading));
+				this.handleMetadataChange(file.path);
 			})
 		);
 
 		this.registerEvent(
 			this.app.vault.on("rename", (file, oldPath) => {
 				if (file instanceof TFile) this.handleRename(oldPath, file.path);
+				else if (file instanceof TFolder) this.handleFolderRename(oldPath, file.path);
 			})
 		);
 
 		this.registerEvent(
 			this.app.vault.on("delete", (file) => {
 				if (file instanceof TFile) this.handleDelete(file.path);
+				else if (file instanceof TFolder) this.handleFolderDelete(file.path);
 			})
 		);
 
+		this.registerInterval(this.mainWindow.setInterval(() => { void this.pollShards(); }, SHARD_POLL_MS));
+
 		this.addSettingTab(new ZoxidianSettingTab(this.app, this));
 	}
 
+	// Called by Obsidian when data.json was changed by sync or another process.
+	async onExternalSettingsChange(): Promise<void> {
+		const raw = (await this.loadData()) as Partial<PersistedData> | null;
+		this.applyLoadedSettings(raw);
+		this.pinned = normalizePins(raw?.pinned);
+		// In shard mode transitions live in this device's shard, not data.json.
+		if (!this.shardStore) this.transitions = normalizeTransitions(raw?.transitions);
+		if (this.settings.syncShards !== !!this.shardStore) {
+			// Another device switched storage; follow it without losing local visits.
+			await this.setSyncShards(this.settings.syncShards);
+			return;
+		}
+		if (this.shardStore) {
+			await this.reloadShards();
+		} else {
+			this.loadProfileData(raw);
+		}
+		this.redrawViews();
+	}
+
 	// Called only when the user explicitly enables the plugin — not on every
 	// app startup. The right place to reveal the leaf for the first time.
 	onUserEnable(): void {
 		void this.app.workspace.ensureSideLeaf(VIEW_TYPE_ZOXIDIAN, "left", { reveal: true });
 	}
 
-	onunload() { /* Obsidian cleans up registered events */ }
+	onunload() {
+		// Obsidian cleans up registered events; settle the visit in progress.
+		this.dwell.stop(Date.now());
+		this.cancelSectionTimer();
+	}
+
+	/** The main window, which outlives popouts, so timers are scheduled on it. */
+	private get mainWindow(): Window {
+		return this.app.workspace.rootSplit.win;
+	}
+
+	/** Feed focus, blur and input activity of one window to the dwell tracker. */
+	private watchActivity(win: Window, doc: Document): void {
+		this.registerDomEvent(win, "focus", () => this.dwell.focus(Date.now()));
+		this.registerDomEvent(win, "blur",  () => this.dwell.blur(Date.now()));
+		for (const type of ["keydown", "pointerdown", "mousemove", "wheel"] as const) {
+			this.registerDomEvent(doc, type, () => this.dwell.activity(Date.now()), { passive: true });
+		}
+	}
 
 	private rebuildOpenPathCounts(): void {
 		const next = new Map<string, number>();
@@ -108,39 +468,620 @@ export default class ZoxidianPlugin extends Plugin {
 
 	async initData(): Promise<void> {
 		const raw = (await this.loadData()) as Partial<PersistedData> | null;
+		this.applyLoadedSettings(raw);
+		this.loadProfileData(raw);
+		this.pinned      = normalizePins(raw?.pinned);
+		this.transitions = normalizeTransitions(raw?.transitions);
+		if (this.settings.syncShards) await this.openShardStore();
+	}
+
+	private applyLoadedSettings(raw: Partial<PersistedData> | null): void {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, raw?.settings ?? {});
-		this.files    = (typeof raw?.files === "object" && raw.files !== null && !Array.isArray(raw.files))
-			? raw.files
-			: {};
+		if (!Array.isArray(this.settings.recencyBuckets) ||
+			validateBuckets(this.settings.recencyBuckets, this.settings.olderMultiplier)) {
+			// A hand-edited or corrupted table must never reach ranking.
+			this.settings.recencyBuckets  = DEFAULT_SCORING.recencyBuckets.map(b => ({ ...b }));
+			this.settings.olderMultiplier = DEFAULT_SCORING.olderMultiplier;
+		}
+
+		// Settings saved before rules existed only have the `excludePaths` regex.
+		const saved = raw?.settings as (Partial<ZoxidianSettings> & { excludePaths?: unknown }) | undefined;
+		this.settings.exclusionRules = saved && !("exclusionRules" in saved)
+			? migrateExcludePaths(saved.excludePaths)
+			: normalizeRules(this.settings.exclusionRules);
+		delete (this.settings as { excludePaths?: unknown }).excludePaths;
+		this.recompileRules();
+
+		this.settings.profiles = normalizeProfiles(saved?.profiles);
+		if (!this.settings.profiles[this.settings.activeProfile]) {
+			this.settings.activeProfile = DEFAULT_PROFILE_ID;
+		}
+	}
+
+	private loadProfileData(raw: Partial<PersistedData> | null): void {
+		const cap = this.settings.visitLogSize;
+		this.profileData = {
+			...normalizeProfileData(raw?.profileData, cap),
+			[DEFAULT_PROFILE_ID]: {
+				files:    normalizeFiles(raw?.files, cap),
+				folders:  normalizeFiles(raw?.folders, cap),
+				sections: normalizeFiles(raw?.sections, cap),
+			},
+		};
+	}
+
+	/** The default profile's maps at the top level, the others under `profileData`. */
+	private splitProfileData(): Required<Pick<PersistedData, "files" | "folders" | "sections" | "profileData">> {
+		const { [DEFAULT_PROFILE_ID]: main, ...others } = this.profileData;
+		return { files: main?.files ?? {}, folders: main?.folders ?? {}, sections: main?.sections ?? {}, profileData: others };
 	}
 
 	async persistData(): Promise<void> {
-		await this.saveData({ files: this.files, settings: this.settings } as PersistedData);
+		if (!this.shardStore) {
+			await this.saveData({
+				...this.splitProfileData(),
+				pinned:      this.pinned,
+				transitions: this.transitions,
+				settings:    this.settings,
+			} as PersistedData);
+			return;
+		}
+
+		// Transitions go to the shard; pins stay shared (see shards.ts).
+		await this.saveData({ pinned: this.pinned, settings: this.settings } as PersistedData);
+		const tombstones = pruneTombstones(this.tombstones);
+		if (Object.keys(tombstones).length !== Object.keys(this.tombstones).length) this.invalidateMerged();
+		this.tombstones = tombstones;
+		await this.shardStore.writeLocal(this.getLocalShard());
+	}
+
+	// -------------------------------------------------------------------------
+	// Sync-safe storage (per-device shards)
+	// -------------------------------------------------------------------------
+
+	private getDeviceId(): string {
+		const stored: unknown = this.app.loadLocalStorage(DEVICE_ID_KEY);
+		if (typeof stored === "string" && stored) return stored;
+		const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+		this.app.saveLocalStorage(DEVICE_ID_KEY, id);
+		return id;
+	}
+
+	private getLocalShard(): Shard {
+		return {
+			deviceId:   this.shardStore?.deviceId ?? "",
+			updatedAt:  Date.now(),
+			resetAt:    this.resetAt,
+			...this.splitProfileData(),
+			transitions: this.transitions,
+			tombstones:  this.tombstones,
+		};
+	}
+
+	/** `keepCurrent` makes the data in memory this device's shard, replacing any older one. */
+	private async openShardStore(keepCurrent = false): Promise<void> {
+		const dir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.shardStore = new ShardStore(this.app.vault.adapter, dir, this.getDeviceId());
+		const { local, remote } = await this.shardStore.readAll(this.settings.visitLogSize);
+		this.remoteShards = remote;
+		this.invalidateMerged();
+		this.reportUnreadableShards();
+		if (local && !keepCurrent) {
+			this.profileData = {
+				...local.profileData,
+				[DEFAULT_PROFILE_ID]: { files: local.files, folders: local.folders, sections: local.sections },
+			};
+			this.tombstones = local.tombstones;
+			this.resetAt    = local.resetAt;
+			// Shards written before transitions moved into them have none; keep data.json's.
+			if (Object.keys(local.transitions).length > 0) this.transitions = local.transitions;
+		}
+		// Without a local shard, whatever data.json held becomes this device's
+		// first shard on the next save.
+	}
+
+	private async reloadShards(): Promise<void> {
+		if (!this.shardStore) return;
+		const { remote } = await this.shardStore.readAll(this.settings.visitLogSize);
+		this.remoteShards = remote;
+		this.invalidateMerged();
+		this.reportUnreadableShards();
+	}
+
+	private reportUnreadableShards(): void {
+		const fresh = (this.shardStore?.unreadable ?? []).filter(path => !this.reportedShards.has(path));
+		if (fresh.length === 0) return;
+		for (const path of fresh) this.reportedShards.add(path);
+		new Notice(
+			`Could not read ${fresh.length} shard file(s), so their visits are left out: ` +
+			fresh.map(path => `"${path}"`).join(", ") + ".",
+		);
 	}
 
+	private async pollShards(): Promise<void> {
+		if (!this.shardStore || !(await this.shardStore.hasRemoteChanges())) return;
+		await this.reloadShards();
+		this.redrawViews();
+	}
+
+	/** Switch between a single data.json and per-device shards. */
+	async setSyncShards(enabled: boolean): Promise<void> {
+		if (enabled === !!this.shardStore) return;
+		this.settings.syncShards = enabled;
+
+		if (enabled) {
+			await this.openShardStore(true);
+		} else {
+			// Keep everything the devices knew about in the single database.
+			const ids = new Set([...Object.keys(this.profileData), ...Object.keys(this.settings.profiles)]);
+			const merged: Record<string, ProfileData> = {};
+			for (const id of ids) merged[id] = this.getMergedData(id);
+			this.profileData  = merged;
+			this.transitions  = this.getTransitions();
+			this.shardStore   = null;
+			this.remoteShards = [];
+			this.tombstones   = {};
+			this.resetAt      = 0;
+			this.invalidateMerged();
+		}
+		await this.persistData();
+		this.redrawViews();
+	}
+
+	/** The data ranking works on: this device's data merged with every other shard. */
+	getMergedData(profileId = this.settings.activeProfile): ProfileData {
+		if (!this.shardStore) return this.profileData[profileId] ?? emptyProfileData();
+		const cached = this.mergedCache.get(profileId);
+		if (cached?.generation === this.mergeGeneration) return cached.data;
+
+		const data = mergeShards(
+			[this.getLocalShard(), ...this.remoteShards].map(shard => shardProfile(shard, profileId)),
+			this.settings.shardMergeMode,
+			this.settings.visitLogSize,
+		);
+		this.mergedCache.set(profileId, { generation: this.mergeGeneration, data });
+		return data;
+	}
+
+	/** Co-visitation counts of every device, merged like getMergedData. */
+	private getTransitions(): Transitions {
+		if (!this.shardStore) return this.transitions;
+		if (this.mergedTransitions?.generation === this.mergeGeneration) return this.mergedTransitions.data;
+		const data = mergeTransitions([this.getLocalShard(), ...this.remoteShards]);
+		this.mergedTransitions = { generation: this.mergeGeneration, data };
+		return data;
+	}
+
+	/** Drop every cached merge; the next read merges the shards again. */
+	private invalidateMerged(): void {
+		this.mergeGeneration++;
+	}
+
+	/**
+	 * Carry a change to the local entry of `path` (`before` is a copy taken
+	 * before it) into the active profile's cached merge, if there is one.
+	 */
+	private patchMerged(path: string, before: FileEntry | undefined): void {
+		const cached = this.mergedCache.get(this.settings.activeProfile);
+		if (!this.shardStore || cached?.generation !== this.mergeGeneration) return;
+		const after = this.files[path];
+		// An entry the merge dropped (a tombstone or reset) needs a full merge to reappear.
+		if (!after || (before && !cached.data.files[path])) {
+			this.invalidateMerged();
+			return;
+		}
+		cached.data.files[path] = patchMergedEntry(
+			cached.data.files[path], before, after, this.settings.shardMergeMode, this.settings.visitLogSize,
+		);
+	}
+
+	private addTombstone(path: string, tombstone: Tombstone): void {
+		if (!this.shardStore) return;
+		this.tombstones[path] = tombstone;
+		this.invalidateMerged();
+	}
+
+	async exportDatabase(format: TransferFormat): Promise<void> {
+		const date = new Date().toISOString().slice(0, 10);
+		const path = normalizePath(`zoxidian-export-${date}.${FORMAT_EXTENSIONS[format]}`);
+		const { files } = this.getMergedData();
+		const text = serializeDatabase(files, format);
+
+		try {
+			const existing = this.app.vault.getAbstractFileByPath(path);
+			if (existing instanceof TFile) {
+				await this.app.vault.modify(existing, text);
+			} else {
+				await this.app.vault.create(path, text);
+			}
+			new Notice(`Exported ${Object.keys(files).length} note(s) to "${path}".`);
+		} catch {
+			new Notice(`Could not write "${path}".`);
+		}
+	}
+
+	importEntries(entries: Record<string, FileEntry>, mode: ImportMode): void {
+		if (mode === "replace" && this.shardStore) {
+			// Other devices' shards still hold the notes the import drops; tombstones hide them.
+			const now = Date.now();
+			for (const path of Object.keys(this.getMergedData().files)) {
+				if (!entries[path]) this.addTombstone(path, { at: now });
+			}
+		}
+		applyImport(this.files, entries, mode, this.settings.visitLogSize);
+		this.ageFiles();
+		void this.persistData();
+		this.redrawViews();
+	}
+
+	// -------------------------------------------------------------------------
+	// Seeding
+	// -------------------------------------------------------------------------
+
+	/** Build (but do not apply) seed entries from recent files and note mtimes. */
+	buildSeed(): Record<string, FileEntry> {
+		const notes = this.app.vault.getMarkdownFiles()
+			.filter(f => !this.isExcluded(f.path, "tracking") && !this.isExcluded(f.path, "display"))
+			.map(f => ({ path: f.path, mtime: f.stat.mtime }));
+
+		return buildSeedEntries(
+			this.app.workspace.getLastOpenFiles(),
+			notes,
+			this.getEffectiveSettings().maxAge,
+			this.settings.visitLogSize,
+		);
+	}
+
+	/** Add seed entries for notes that are not tracked yet. Returns how many were added. */
+	applySeed(entries: Record<string, FileEntry>): number {
+		let added = 0;
+		for (const [path, entry] of Object.entries(entries)) {
+			if (this.files[path]) continue;
+			this.files[path] = entry;
+			added++;
+		}
+		this.settings.seededAt = Date.now();
+		this.ageFiles();
+		void this.persistData();
+		this.redrawViews();
+		return added;
+	}
+
+	/** Clear the visit data of every profile. */
 	clearData(): void {
-		this.files = {};
+		this.profileData     = { [DEFAULT_PROFILE_ID]: emptyProfileData() };
+		this.transitions     = {};
+		this.lastVisitedPath = null;
+		// Clearing makes the database fresh again, so offer seeding once more.
+		this.settings.seededAt = 0;
+		// Other devices' shards still hold older visits; the reset hides them.
+		this.tombstones = {};
+		this.resetAt    = Date.now();
+		this.invalidateMerged();
 		this.debouncedPersist();
 	}
 
+	// -------------------------------------------------------------------------
+	// Profiles
+	// -------------------------------------------------------------------------
+
+	private activeData(): ProfileData {
+		const id = this.settings.activeProfile;
+		let data = this.profileData[id];
+		if (!data) {
+			data = emptyProfileData();
+			this.profileData[id] = data;
+		}
+		return data;
+	}
+
+	/** Global settings with a profile's overrides (the active one's by default) applied. */
+	getEffectiveSettings(profileId = this.settings.activeProfile): ZoxidianSettings {
+		const overrides = this.settings.profiles[profileId]?.overrides;
+		return overrides ? { ...this.settings, ...overrides } : this.settings;
+	}
+
+	getActiveProfileName(): string {
+		return this.settings.profiles[this.settings.activeProfile]?.name ?? "Default";
+	}
+
+	switchProfile(id: string): void {
+		if (id === this.settings.activeProfile || !this.settings.profiles[id]) return;
+		// Settle the visit in progress so it counts towards the profile it started in.
+		this.dwell.stop(Date.now());
+		this.settings.activeProfile = id;
+		this.persistAndRedraw();
+	}
+
+	/** Create a profile (a copy of `copyFrom`, if given) and switch to it. Returns its id. */
+	createProfile(name: string, copyFrom?: string): string {
+		const id     = newProfileId(name, this.settings.profiles);
+		const source = copyFrom !== undefined ? this.settings.profiles[copyFrom] : undefined;
+		this.settings.profiles[id] = {
+			name,
+			overrides:    { ...source?.overrides },
+			autoActivate: [],
+		};
+		this.profileData[id] = copyFrom !== undefined
+			? cloneProfileData(this.getMergedData(copyFrom))
+			: emptyProfileData();
+		this.switchProfile(id);
+		return id;
+	}
+
+	renameProfile(id: string, name: string): void {
+		const profile = this.settings.profiles[id];
+		if (!profile) return;
+		profile.name = name;
+		this.persistAndRedraw();
+	}
+
+	/** Delete a profile and its visits. The default profile cannot be deleted. */
+	deleteProfile(id: string): void {
+		if (id === DEFAULT_PROFILE_ID || !this.settings.profiles[id]) return;
+		if (id === this.settings.activeProfile) this.switchProfile(DEFAULT_PROFILE_ID);
+		delete this.settings.profiles[id];
+		delete this.profileData[id];
+		this.persistAndRedraw();
+	}
+
 	// -------------------------------------------------------------------------
 	// Visit tracking
 	// -------------------------------------------------------------------------
 
-	recordVisit(file: TFile, wasAlreadyOpen: boolean): void {
+	/** Count a visit to `file`. Returns false when the visit was ignored. */
+	recordVisit(file: TFile, wasAlreadyOpen: boolean): boolean {
 		// In "on open" mode, skip if this file already had a leaf (tab switch).
-		if (!this.settings.recordOnEveryVisit && wasAlreadyOpen) return;
+		if (!this.settings.recordOnEveryVisit && wasAlreadyOpen) return false;
+		if (this.isExcluded(file.path, "tracking")) return false;
 
+		const now = Date.now();
 		const existing = this.files[file.path];
+		const before   = existing && copyEntry(existing);
 		if (existing) {
 			existing.score      += 1;
-			existing.lastAccess  = Date.now();
+			existing.lastAccess  = now;
+			existing.opens       = (existing.opens ?? 0) + 1;
+			pushVisit(existing, now, this.settings.visitLogSize);
 		} else {
-			this.files[file.path] = { score: 1, lastAccess: Date.now() };
+			this.files[file.path] = { score: 1, lastAccess: now, visits: trimVisits([now], this.settings.visitLogSize), opens: 1 };
 		}
-		applyAging(this.files, this.settings.maxAge);
+		this.patchMerged(file.path, before);
+		const aged = this.ageFiles();
+		if (this.lastVisitedPath !== null) {
+			recordTransition(this.transitions, this.lastVisitedPath, file.path);
+			ageTransitions(this.transitions, this.getEffectiveSettings().maxAge);
+			this.mergedTransitions = null;
+		}
+		this.lastVisitedPath = file.path;
 		this.debouncedPersist();
-		this.redrawViews();
+		this.redrawViews(aged ? undefined : file.path);
+		this.app.workspace.trigger("zoxidian:visit", file.path);
+		return true;
+	}
+
+	/**
+	 * Count an edit to a tracked note. Edits that arrive within
+	 * EDIT_SESSION_GAP_MS of the previous one belong to the same editing
+	 * session (every keystroke is one) and are only counted once. Returns
+	 * false when the edit was not counted.
+	 */
+	recordEdit(file: TFile): boolean {
+		if (!this.settings.trackEdits) return false;
+		const entry = this.files[file.path];
+		if (!entry || this.isExcluded(file.path, "tracking")) return false;
+
+		const now  = Date.now();
+		const last = this.lastEditAt.get(file.path);
+		this.lastEditAt.set(file.path, now);
+		if (last !== undefined && now - last < EDIT_SESSION_GAP_MS) return false;
+
+		const before = copyEntry(entry);
+		entry.score      += this.settings.editWeight;
+		entry.lastAccess  = Math.max(entry.lastAccess, now);
+		entry.edits       = (entry.edits ?? 0) + 1;
+		this.patchMerged(file.path, before);
+		const aged = this.ageFiles();
+		this.debouncedPersist();
+		this.redrawViews(aged ? undefined : file.path);
+		return true;
+	}
+
+	/** Add the dwell-time bonus earned by a visit that has already been counted. */
+	addDwellBonus(path: string, amount: number): void {
+		const entry = this.files[path];
+		if (!entry) return;
+		const before = copyEntry(entry);
+		entry.score += amount;
+		this.patchMerged(path, before);
+		const aged = this.ageFiles();
+		this.debouncedPersist();
+		this.redrawViews(aged ? undefined : path);
+	}
+
+	recordFolderVisit(path: string): void {
+		const now = Date.now();
+		const existing = this.folders[path];
+		if (existing) {
+			existing.score      += 1;
+			existing.lastAccess  = now;
+			pushVisit(existing, now, this.settings.visitLogSize);
+		} else {
+			this.folders[path] = { score: 1, lastAccess: now, visits: trimVisits([now], this.settings.visitLogSize) };
+		}
+		applyAging(this.folders, this.getEffectiveSettings().maxAge);
+		this.invalidateMerged();
+		this.debouncedPersist();
+	}
+
+	/** Count a visit to one heading or block of `path`. */
+	recordSectionVisit(path: string, subpath: string): void {
+		if (this.isExcluded(path, "tracking")) return;
+		const now = Date.now();
+		const key = sectionKey(path, subpath);
+		const existing = this.sections[key];
+		if (existing) {
+			existing.score      += 1;
+			existing.lastAccess  = now;
+			pushVisit(existing, now, this.settings.visitLogSize);
+		} else {
+			this.sections[key] = { score: 1, lastAccess: now, visits: trimVisits([now], this.settings.visitLogSize) };
+		}
+		applyAging(this.sections, this.getEffectiveSettings().maxAge);
+		this.snapshotHeadings(path);
+		this.invalidateMerged();
+		this.debouncedPersist();
+	}
+
+	/**
+	 * Count a visit to the section the active view shows of `path`: the
+	 * subpath of the link it was opened through, else the heading or block
+	 * at the top of the view.
+	 */
+	private recordSectionInView(path: string): void {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view?.file || view.file.path !== path) return;
+		const { subpath } = view.getEphemeralState();
+		const section = (typeof subpath === "string" ? normalizeSubpath(subpath) : null)
+			?? sectionAtLine(this.app.metadataCache.getFileCache(view.file), view.currentMode.getScroll());
+		if (section) this.recordSectionVisit(path, section);
+	}
+
+	private cancelSectionTimer(): void {
+		if (this.sectionTimer !== null) this.mainWindow.clearTimeout(this.sectionTimer);
+		this.sectionTimer = null;
+	}
+
+	private snapshotHeadings(path: string): void {
+		if (this.headingSnapshots.has(path)) return;
+		const headings = this.app.metadataCache.getCache(path)?.headings ?? [];
+		this.headingSnapshots.set(path, headings.map(h => h.heading));
+	}
+
+	/**
+	 * Carry section entries over renamed headings, comparing `headings`
+	 * with the note's heading list when last seen.
+	 */
+	reconcileSections(path: string, headings: string[]): void {
+		const before = this.headingSnapshots.get(path);
+		this.headingSnapshots.set(path, headings);
+		if (!before) return;
+
+		let moved = false;
+		for (const [from, to] of reconcileHeadings(before, headings)) {
+			for (const { sections } of Object.values(this.profileData)) {
+				moved = renameSection(sections, path, from, to, this.settings.visitLogSize) || moved;
+			}
+		}
+		if (!moved) return;
+		this.invalidateMerged();
+		this.debouncedPersist();
+	}
+
+	/** Tracked sections of notes that exist and are shown, most frecent first. */
+	getSectionEntries(): Array<{ path: string; subpath: string; entry: FileEntry; frecency: number }> {
+		const now      = Date.now();
+		const settings = this.getEffectiveSettings();
+		const sections = [];
+		for (const [key, entry] of Object.entries(this.getMergedData().sections)) {
+			const ref = parseSectionKey(key);
+			if (!ref || this.isExcluded(ref.path, "display")) continue;
+			if (!(this.app.vault.getAbstractFileByPath(ref.path) instanceof TFile)) continue;
+			sections.push({ ...ref, entry, frecency: getFrecency(entry, now, settings) });
+		}
+		return sections.sort((a, b) => b.frecency - a.frecency);
+	}
+
+	/** Age the note database; pinned notes are never pruned. Returns true when scores were scaled. */
+	ageFiles(maxAge = this.getEffectiveSettings().maxAge, options: AgingOptions = {}): boolean {
+		const pruned: string[] = [];
+		const aged = applyAging(this.files, maxAge, { ...options, keep: new Set(this.pinned), onPrune: path => pruned.push(path) });
+		if (pruned.length > 0) this.app.workspace.trigger("zoxidian:prune", pruned, "aged");
+		return aged;
+	}
+
+	/**
+	 * Age every profile's notes, folders and sections with that profile's own
+	 * max age, after a global limit changed. Pass `visitLogSize` to trim the
+	 * visit logs too. Returns true when any scores were scaled.
+	 */
+	ageAllProfiles(options: AgingOptions = {}): boolean {
+		let aged = false;
+		for (const [id, data] of Object.entries(this.profileData)) {
+			const { maxAge } = this.getEffectiveSettings(id);
+			if (id === this.settings.activeProfile) {
+				aged = this.ageFiles(maxAge, options) || aged;
+			} else {
+				aged = applyAging(data.files, maxAge, { ...options, keep: new Set(this.pinned) }) || aged;
+			}
+			aged = applyAging(data.folders, maxAge, options) || aged;
+			aged = applyAging(data.sections, maxAge, options) || aged;
+		}
+		return aged;
+	}
+
+	/**
+	 * What lowering the global max age to `maxAge` would do to the profiles
+	 * that use it: whether any would be scaled, and how many notes pruned.
+	 */
+	previewMaxAge(maxAge: number): { scaled: boolean; pruned: number } {
+		let scaled = false;
+		let pruned = 0;
+		for (const [id, { files }] of Object.entries(this.profileData)) {
+			if (this.settings.profiles[id]?.overrides.maxAge !== undefined) continue;
+			const total = Object.values(files).reduce((sum, e) => sum + e.score, 0);
+			if (total <= maxAge) continue;
+			scaled = true;
+			const scale = (maxAge * 0.9) / total;
+			pruned += Object.entries(files).filter(([path, e]) => e.score * scale < 1 && !this.isPinned(path)).length;
+		}
+		return { scaled, pruned };
+	}
+
+	// -------------------------------------------------------------------------
+	// Pinned notes
+	// -------------------------------------------------------------------------
+
+	isPinned(path: string): boolean {
+		return this.pinned.includes(path);
+	}
+
+	/** Pin `path` at the end of the pinned section, or unpin it. */
+	setPinned(path: string, pinned: boolean): void {
+		if (pinned === this.isPinned(path)) return;
+		if (pinned) this.pinned.push(path);
+		else removePins(this.pinned, path);
+		this.persistAndRedraw();
+	}
+
+	/** Pin or unpin several notes, persisting once. */
+	setPinnedAll(paths: string[], pinned: boolean): void {
+		let changed = false;
+		for (const path of paths) {
+			if (pinned === this.isPinned(path)) continue;
+			if (pinned) this.pinned.push(path);
+			else removePins(this.pinned, path);
+			changed = true;
+		}
+		if (changed) this.persistAndRedraw();
+	}
+
+	/** Move a pinned note to `index` within the pinned section. */
+	movePinned(path: string, index: number): void {
+		if (movePin(this.pinned, path, index)) this.persistAndRedraw();
+	}
+
+	/** Pinned notes that exist, in pinned order, with their ranking data where tracked. */
+	getPinnedEntries(): Array<{ path: string; entry: FileEntry; frecency: number }> {
+		const files    = this.getMergedData().files;
+		const now      = Date.now();
+		const settings = this.getEffectiveSettings();
+		return this.pinned
+			.filter(path => this.app.vault.getAbstractFileByPath(path) instanceof TFile)
+			.map(path => {
+				const entry = files[path] ?? { score: 0, lastAccess: 0, visits: [] };
+				return { path, entry, frecency: files[path] ? getFrecency(entry, now, settings) : 0 };
+			});
 	}
 
 	getTotalScore(): number {
@@ -148,15 +1089,46 @@ export default class ZoxidianPlugin extends Plugin {
 	}
 
 	handleRename(oldPath: string, newPath: string): void {
-		const entry = this.files[oldPath];
-		if (!entry) return;
+		// Untracked notes can be mid-dwell too, so follow the rename first.
+		this.dwell.rename(oldPath, newPath);
+		const lastEdit = this.lastEditAt.get(oldPath);
+		if (lastEdit !== undefined) {
+			this.lastEditAt.delete(oldPath);
+			this.lastEditAt.set(newPath, lastEdit);
+		}
+
+		const headings = this.headingSnapshots.get(oldPath);
+		if (headings) {
+			this.headingSnapshots.delete(oldPath);
+			this.headingSnapshots.set(newPath, headings);
+		}
+
+		// Other devices may track the note even if this one does not.
+		this.addTombstone(oldPath, { at: Date.now(), to: newPath });
+		const pinMoved = renamePins(this.pinned, oldPath, newPath);
+		const transitionsMoved = this.renameTransitions(oldPath, newPath);
+		let sectionsMoved = false;
+		for (const { sections } of Object.values(this.profileData)) {
+			sectionsMoved = moveSections(sections, oldPath, newPath, this.settings.visitLogSize) || sectionsMoved;
+		}
 
-		// Merge into existing entry for newPath (if any), rather than overwriting.
-		const existing = this.files[newPath];
-		this.files[newPath] = existing
-			? { score: existing.score + entry.score, lastAccess: Math.max(existing.lastAccess, entry.lastAccess) }
-			: { ...entry };
-		delete this.files[oldPath];
+		// A note keeps its history in every profile that tracks it.
+		let moved = false;
+		for (const { files } of Object.values(this.profileData)) {
+			const entry = files[oldPath];
+			if (!entry) continue;
+			// Merge into existing entry for newPath (if any), rather than overwriting.
+			const existing = files[newPath];
+			files[newPath] = existing
+				? mergeEntries(existing, entry, this.settings.visitLogSize)
+				: { ...entry, visits: [...entry.visits] };
+			delete files[oldPath];
+			moved = true;
+		}
+		if (!moved) {
+			if (this.shardStore || pinMoved || transitionsMoved || sectionsMoved) this.persistAndRedraw();
+			return;
+		}
 
 		// Keep open-path snapshot consistent across renames.
 		const oldCount = this.openPathCounts.get(oldPath) ?? 0;
@@ -168,17 +1140,187 @@ export default class ZoxidianPlugin extends Plugin {
 		this.notifyRenameInViews(oldPath, newPath);  // update activeFilePath before redraw
 		this.debouncedPersist();   // was: this.persistData() — debounce for bulk folder moves
 		this.redrawViews();
+		this.app.workspace.trigger("zoxidian:rename", oldPath, newPath, false);
 	}
 
-	handleDelete(path: string): void {
-		if (!this.files[path]) return;
-		delete this.files[path];
-		void this.persistData();
+	// A folder move renames every note below it. Obsidian may or may not emit
+	// a rename per descendant as well; moving the whole prefix here makes those
+	// follow-up events no-ops, so rolled-up folder scores stay correct.
+	handleFolderRename(oldPath: string, newPath: string): void {
+		const movedNotes = Object.keys(this.files)
+			.filter(path => path.startsWith(`${oldPath}/`));
+
+		this.dwell.rename(oldPath, newPath);
+		this.addTombstone(oldPath, { at: Date.now(), to: newPath, folder: true });
+		const pinsMoved    = renamePins(this.pinned, oldPath, newPath);
+		const transitionsMoved = this.renameTransitions(oldPath, newPath);
+		let moved = false;
+		for (const { files, folders, sections } of Object.values(this.profileData)) {
+			const movedFiles    = movePrefix(files, oldPath, newPath, this.settings.visitLogSize);
+			const movedFolders  = movePrefix(folders, oldPath, newPath, this.settings.visitLogSize);
+			const movedSections = movePrefix(sections, oldPath, newPath, this.settings.visitLogSize);
+			moved = moved || movedFiles || movedFolders || movedSections;
+		}
+		for (const [path, headings] of [...this.headingSnapshots]) {
+			if (!path.startsWith(`${oldPath}/`)) continue;
+			this.headingSnapshots.delete(path);
+			this.headingSnapshots.set(newPath + path.slice(oldPath.length), headings);
+		}
+
+		for (const [path, count] of [...this.openPathCounts]) {
+			if (!path.startsWith(`${oldPath}/`)) continue;
+			const target = newPath + path.slice(oldPath.length);
+			this.openPathCounts.delete(path);
+			this.openPathCounts.set(target, (this.openPathCounts.get(target) ?? 0) + count);
+		}
+		for (const [path, at] of [...this.lastEditAt]) {
+			if (!path.startsWith(`${oldPath}/`)) continue;
+			this.lastEditAt.delete(path);
+			this.lastEditAt.set(newPath + path.slice(oldPath.length), at);
+		}
+
+		if (!moved) {
+			if (this.shardStore || pinsMoved || transitionsMoved) this.persistAndRedraw();
+			return;
+		}
+		for (const path of movedNotes) {
+			this.notifyRenameInViews(path, newPath + path.slice(oldPath.length));
+		}
+		this.debouncedPersist();
 		this.redrawViews();
+		this.app.workspace.trigger("zoxidian:rename", oldPath, newPath, true);
+	}
+
+	handleFolderDelete(path: string): void {
+		this.dwell.remove(path);
+		this.addTombstone(path, { at: Date.now(), folder: true });
+		let removed = this.removeTransitions(path);
+		removed = removePins(this.pinned, path) || removed;
+		const pruned = new Set<string>();
+		for (const { files, folders, sections } of Object.values(this.profileData)) {
+			for (const note of Object.keys(files)) {
+				if (note.startsWith(`${path}/`)) pruned.add(note);
+			}
+			const removedFiles    = deletePrefix(files, path);
+			const removedFolders  = deletePrefix(folders, path);
+			const removedSections = deletePrefix(sections, path);
+			removed = removed || removedFiles || removedFolders || removedSections;
+		}
+		for (const note of [...this.headingSnapshots.keys()]) {
+			if (note.startsWith(`${path}/`)) this.headingSnapshots.delete(note);
+		}
+		if (pruned.size > 0) this.app.workspace.trigger("zoxidian:prune", [...pruned], "deleted");
+		if (!removed && !this.shardStore) return;
+		this.persistAndRedraw();
+	}
+
+	handleDelete(path: string): void {
+		this.dwell.remove(path);
+		this.lastEditAt.delete(path);
+		this.addTombstone(path, { at: Date.now() });
+		let removed = this.removeTransitions(path);
+		removed = removePins(this.pinned, path) || removed;
+		this.headingSnapshots.delete(path);
+		let tracked = false;
+		for (const { files, sections } of Object.values(this.profileData)) {
+			tracked = tracked || !!files[path];
+			delete files[path];
+			removed = removeSections(sections, path) || removed;
+		}
+		if (tracked) this.app.workspace.trigger("zoxidian:prune", [path], "deleted");
+		if (!removed && !tracked && !this.shardStore) return;
+		this.persistAndRedraw();
 	}
 
 	removeEntry(path: string): void {
 		delete this.files[path];
+		// Without a tombstone the merged view would bring it back from other shards.
+		this.addTombstone(path, { at: Date.now() });
+	}
+
+	/**
+	 * Remove several notes from the active profile, persisting once. Returns
+	 * what was removed; `undoRemoval` puts it back.
+	 */
+	removeEntries(paths: string[]): RemovedEntries {
+		const removed: RemovedEntries = { profile: this.settings.activeProfile, files: {}, tombstones: {} };
+		for (const path of paths) {
+			const entry = this.files[path];
+			if (entry) removed.files[path] = entry;
+			removed.tombstones[path] = this.tombstones[path] ?? null;
+			this.removeEntry(path);
+		}
+		this.lastRemoval = removed;
+		this.persistAndRedraw();
+		const pruned = Object.keys(removed.files);
+		if (pruned.length > 0) this.app.workspace.trigger("zoxidian:prune", pruned, "removed");
+		return removed;
+	}
+
+	canUndoRemoval(): boolean {
+		return this.lastRemoval !== null;
+	}
+
+	/** Restore the notes taken out by the last `removeEntries`. */
+	undoRemoval(): void {
+		const removed = this.lastRemoval;
+		if (!removed) return;
+		this.lastRemoval = null;
+
+		const data = this.profileData[removed.profile];
+		if (data) {
+			for (const [path, entry] of Object.entries(removed.files)) {
+				// A visit since the removal started a new entry; keep both.
+				const current = data.files[path];
+				data.files[path] = current ? mergeEntries(current, entry, this.settings.visitLogSize) : entry;
+			}
+		}
+		if (this.shardStore) {
+			for (const [path, tombstone] of Object.entries(removed.tombstones)) {
+				if (tombstone) this.tombstones[path] = tombstone;
+				else delete this.tombstones[path];
+			}
+		}
+		this.persistAndRedraw();
+	}
+
+	/** Start several notes over as if they had been visited once, at their last access. */
+	resetEntries(paths: string[]): void {
+		const source = this.shardStore ? this.getMergedData().files : this.files;
+		let changed = false;
+		for (const path of paths) {
+			const entry = source[path];
+			if (!entry) continue;
+			let lastAccess = entry.lastAccess;
+			if (this.shardStore) {
+				// Other shards would add their visits back in; the tombstone drops them and
+				// the fresh entry, a millisecond newer, outlives it.
+				this.addTombstone(path, { at: lastAccess });
+				lastAccess += 1;
+			}
+			this.files[path] = { score: 1, lastAccess, visits: [lastAccess] };
+			changed = true;
+		}
+		if (changed) this.persistAndRedraw();
+	}
+
+	private renameTransitions(oldPath: string, newPath: string): boolean {
+		if (this.lastVisitedPath !== null && (this.lastVisitedPath === oldPath || this.lastVisitedPath.startsWith(`${oldPath}/`))) {
+			this.lastVisitedPath = newPath + this.lastVisitedPath.slice(oldPath.length);
+		}
+		return renameInTransitions(this.transitions, oldPath, newPath);
+	}
+
+	private removeTransitions(path: string): boolean {
+		if (this.lastVisitedPath !== null && (this.lastVisitedPath === path || this.lastVisitedPath.startsWith(`${path}/`))) {
+			this.lastVisitedPath = null;
+		}
+		return removeFromTransitions(this.transitions, path);
+	}
+
+	private persistAndRedraw(): void {
+		void this.persistData();
+		this.redrawViews();
 	}
 
 	private getZoxidianViews(): ZoxidianView[] {
@@ -187,7 +1329,14 @@ export default class ZoxidianPlugin extends Plugin {
 			.filter((view): view is ZoxidianView => view instanceof ZoxidianView);
 	}
 
-	redrawViews(): void {
+	/**
+	 * Redraw the sidebar. Pass the path of the one note whose entry changed
+	 * (a visit, edit or dwell bonus) to re-rank just that note; without it
+	 * the ranking is rebuilt on the next read.
+	 */
+	redrawViews(changedPath?: string): void {
+		if (changedPath === undefined) this.invalidateRanking();
+		else this.rerank(changedPath);
 		for (const view of this.getZoxidianViews()) {
 			view.redraw();
 		}
@@ -203,24 +1352,175 @@ export default class ZoxidianPlugin extends Plugin {
 	// Sorted entry list (used by the view and search modal)
 	// -------------------------------------------------------------------------
 
-	getSortedEntries(applyLimit = true): Array<{ path: string; entry: FileEntry; frecency: number }> {
-		let excludeRegex: RegExp | null = null;
-		if (this.settings.excludePaths.trim()) {
-			try {
-				excludeRegex = new RegExp(this.settings.excludePaths);
-			} catch {
-				// Invalid regex — skip the filter rather than crash.
-			}
+	getSortedEntries(applyLimit = true): RankedEntry[] {
+		const sorted = this.getRanking();
+		return applyLimit ? sorted.slice(0, this.getEffectiveSettings().maxItems) : [...sorted];
+	}
+
+	/** Ranked notes that exist, in the order the "#1"–"#9" commands and markers use. */
+	getRankedPaths(): string[] {
+		return this.getSortedEntries()
+			.filter(e => this.app.vault.getAbstractFileByPath(e.path) instanceof TFile)
+			.map(e => e.path);
+	}
+
+	/** Open the next or previous note in a frozen snapshot of the ranking. */
+	cycleRanking(direction: 1 | -1): void {
+		const active = this.app.workspace.getActiveFile()?.path ?? null;
+		const path   = this.cycle.step(active, direction, () => this.getRankedPaths());
+		if (path !== null) this.openPath(path);
+	}
+
+	/**
+	 * zoxide's `z query`: open the best match, or the search modal pre-filled
+	 * with `query` when nothing matches or no match clearly leads.
+	 */
+	jump(query: string, paneType?: PaneType): void {
+		const ranked = this.getSortedEntries(false)
+			.filter(e => this.app.vault.getAbstractFileByPath(e.path) instanceof TFile);
+		const path = pickJumpTarget(query, ranked);
+		if (path !== null) {
+			this.openPath(path, paneType ?? (this.settings.openInNewTab ? "tab" : false));
+			return;
+		}
+		new ZoxidianSearchModal(this.app, this, { query, queryMode: "zoxide", paneType }).open();
+	}
+
+	private openPath(path: string, paneType: PaneType | false = false): void {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (file instanceof TFile) void this.app.workspace.getLeaf(paneType).openFile(file);
+	}
+
+	/** Rebuild the ranking, and in shard mode the merge under it, on the next read. */
+	invalidateRanking(): void {
+		this.rankedFiles = null;
+		this.invalidateMerged();
+	}
+
+	/** The ranked index, rebuilt when stale or when its inputs changed. */
+	private getRanking(): readonly RankedEntry[] {
+		const now      = Date.now();
+		const settings = this.getEffectiveSettings();
+		const options  = this.rankingOptionsKey(settings);
+		const files    = this.getMergedData().files;
+		const fresh    = this.rankedFiles !== null
+			&& this.rankedFiles === files
+			&& this.rankedRules === this.compiledRules
+			&& this.rankedOptions === options
+			&& now - this.rankedAt < RANKING_REFRESH_MS;
+		if (fresh) return this.ranking.entries;
+
+		this.ranking.rebuild(files, path => !this.isExcluded(path, "display"), entry => getFrecency(entry, now, settings));
+		this.rankedAt      = now;
+		this.rankedFiles   = files;
+		this.rankedRules   = this.compiledRules;
+		this.rankedOptions = options;
+		return this.ranking.entries;
+	}
+
+	/** Move one note to its new place in the ranked index after its entry changed. */
+	private rerank(path: string): void {
+		// In shard mode the merged entry was patched in place by patchMerged.
+		if (this.rankedFiles === null) return;
+		const files = this.getMergedData().files;
+		if (this.rankedFiles !== files) {
+			this.rankedFiles = null;
+			return;
 		}
+		const settings = this.getEffectiveSettings();
+		const at       = this.rankedAt;
+		this.ranking.update(path, files[path], !this.isExcluded(path, "display"), entry => getFrecency(entry, at, settings));
+	}
 
+	private rankingOptionsKey(settings: ZoxidianSettings): string {
+		const { scoringStrategy, halfLifeHours, recencyBuckets, olderMultiplier, contextStrength } = settings;
+		return JSON.stringify([scoringStrategy, halfLifeHours, recencyBuckets, olderMultiplier, contextStrength]);
+	}
+
+	// -------------------------------------------------------------------------
+	// Exclusion rules
+	// -------------------------------------------------------------------------
+
+	/** Compile `settings.exclusionRules`; call after every change to them. */
+	recompileRules(): void {
+		this.compiledRules = compileRules(this.settings.exclusionRules);
+	}
+
+	isExcluded(path: string, scope: Exclude<RuleScope, "both">): boolean {
+		return isExcluded(this.compiledRules, path, scope, p => this.getNoteMeta(p));
+	}
+
+	/**
+	 * A note's tags or frontmatter changed. When a display rule reads them and
+	 * the note's exclusion flipped, re-rank it instead of waiting for the
+	 * periodic rebuild.
+	 */
+	handleMetadataChange(path: string): void {
+		if (this.rankedFiles === null) return;
+		if (!this.compiledRules.rules.some(({ rule, needsMeta }) => needsMeta && rule.scope !== "tracking")) return;
+		if (!this.getMergedData().files[path]) return;
+		if (this.ranking.has(path) !== this.isExcluded(path, "display")) return;
+		this.redrawViews(path);
+	}
+
+	/** Compile error and vault-wide match count for one rule (settings UI). */
+	describeRule(rule: ExclusionRule): { error: string | null; matches: number } {
+		const { rules: [compiled], errors: [error] } = compileRules([rule]);
+		if (!compiled) return { error: error ?? null, matches: 0 };
+		const matches = this.app.vault.getMarkdownFiles()
+			.filter(f => compiled.matches(f.path, compiled.needsMeta ? this.getNoteMeta(f.path) : null))
+			.length;
+		return { error: null, matches };
+	}
+
+	private getNoteMeta(path: string): NoteMeta | null {
+		const cache = this.app.metadataCache.getCache(path);
+		if (!cache) return null;
+		return { tags: getAllTags(cache) ?? [], frontmatter: cache.frontmatter ?? {} };
+	}
+
+	/**
+	 * Notes the context boost raises most right now, strongest first. Empty
+	 * while the boost is off.
+	 */
+	getLikelyNext(limit = LIKELY_NEXT_COUNT): Array<{ path: string; entry: FileEntry; frecency: number }> {
+		const strength = this.getEffectiveSettings().contextStrength;
+		if (strength <= 0) return [];
 		const now = Date.now();
+		return this.getSortedEntries(false)
+			.map(e => ({ ...e, multiplier: getContextBoost(e.entry, now, strength).multiplier }))
+			.filter(e => e.multiplier > 1)
+			// Rank by how much of the frecency the boost added.
+			.sort((a, b) => b.frecency * (1 - 1 / b.multiplier) - a.frecency * (1 - 1 / a.multiplier))
+			.slice(0, limit)
+			.map(({ path, entry, frecency }) => ({ path, entry, frecency }));
+	}
 
-		const sorted = Object.entries(this.files)
-			.filter(([path]) => !excludeRegex || !excludeRegex.test(path))
-			.map(([path, entry]) => ({ path, entry, frecency: getFrecency(entry, now) }))
-			.sort((a, b) => b.frecency - a.frecency);
+	/** Notes most often opened right after `path`, most frequent first. */
+	getSuccessorEntries(path: string, limit = LIKELY_NEXT_COUNT): Array<{ path: string; entry: FileEntry; frecency: number; count: number }> {
+		const files    = this.getMergedData().files;
+		const now      = Date.now();
+		const settings = this.getEffectiveSettings();
+		return getSuccessors(this.getTransitions(), path)
+			.filter(({ path: next }) =>
+				this.app.vault.getAbstractFileByPath(next) instanceof TFile && !this.isExcluded(next, "display"))
+			.slice(0, limit)
+			.map(({ path: next, count }) => {
+				const entry = files[next] ?? { score: 0, lastAccess: 0, visits: [] };
+				return { path: next, entry, frecency: files[next] ? getFrecency(entry, now, settings) : 0, count };
+			});
+	}
+
+	/** Why `entry` is boosted right now, for tooltips; null when it is not. */
+	explainContextBoost(entry: FileEntry): string | null {
+		const strength = this.getEffectiveSettings().contextStrength;
+		if (strength <= 0) return null;
+		const now = Date.now();
+		return describeContextBoost(getContextBoost(entry, now, strength), now);
+	}
 
-		return applyLimit ? sorted.slice(0, this.settings.maxItems) : sorted;
+	getFolderRanking(): FolderRank[] {
+		return rollUpFolders(this.getSortedEntries(false), this.getMergedData().folders, this.getEffectiveSettings());
 	}
 
 	// -------------------------------------------------------------------------
@@ -230,4 +1530,14 @@ export default class ZoxidianPlugin extends Plugin {
 	activateView(): void {
 		void this.app.workspace.ensureSideLeaf(VIEW_TYPE_ZOXIDIAN, "left", { reveal: true });
 	}
+
+	async focusViewFilter(): Promise<void> {
+		const leaf = await this.app.workspace.ensureSideLeaf(VIEW_TYPE_ZOXIDIAN, "left", { reveal: true });
+		if (leaf.view instanceof ZoxidianView) leaf.view.focusFilter();
+	}
+
+	async focusView(): Promise<void> {
+		const leaf = await this.app.workspace.ensureSideLeaf(VIEW_TYPE_ZOXIDIAN, "left", { reveal: true });
+		if (leaf.view instanceof ZoxidianView) leaf.view.focusList();
+	}
 }
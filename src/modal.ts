@@ -1,20 +1,64 @@
-import { App, SuggestModal, TFile, prepareFuzzySearch, renderMatches, Notice, normalizePath } from "obsidian";
+import { App, PaneType, SuggestModal, TFile, TFolder, prepareFuzzySearch, renderMatches, Notice, normalizePath } from "obsidian";
 import type ZoxidianPlugin from "./main";
 import type { FileEntry } from "./types";
+import { revealInFileExplorer } from "./folder-modal";
+import { matchZoxideQuery, parseZoxideQuery, QueryMode } from "./query";
+import { blendRanking } from "./ranking";
 import { formatScore } from "./utils";
+import { parseSectionKey, sectionKey } from "./sections";
+
+type SortedEntry = {
+	path: string;
+	entry: FileEntry;
+	frecency: number;
+	matches: [number, number][] | null;
+	untracked?: boolean;
+	folder?: boolean;
+	pinned?: boolean;
+	/** A tracked heading or block; `path` is then its `path#subpath` key. */
+	section?: boolean;
+};
+
+/**
+ * Suggestions rendered at once. The chooser only builds DOM for this many
+ * rows, so a 20k-note vault does not turn into 20k elements per keystroke;
+ * notes further down are reached by typing more of the query.
+ */
+const RENDER_LIMIT = 100;
+
+export interface SearchModalOptions {
+	/** Pre-filled query. */
+	query?: string;
+	/** Query mode to start in, instead of the setting. */
+	queryMode?: QueryMode;
+	/** Where a chosen note opens when no modifier is held. */
+	paneType?: PaneType;
+}
 
-type SortedEntry = { path: string; entry: FileEntry; frecency: number; matches: [number, number][] | null; untracked?: boolean };
+const PLACEHOLDERS: Record<QueryMode, string> = {
+	fuzzy:  "Search recent notes…",
+	zoxide: "Keywords in path order, last one in the name (end with / for folders)…",
+};
 
 export class ZoxidianSearchModal extends SuggestModal<SortedEntry> {
-	constructor(app: App, private plugin: ZoxidianPlugin) {
+	private mode: QueryMode;
+	// Ranked notes plus untracked candidates. Nothing they depend on changes
+	// while the modal is open, so they are gathered on the first keystroke
+	// and only filtered afterwards.
+	private candidates: SortedEntry[] | null = null;
+
+	constructor(app: App, private plugin: ZoxidianPlugin, private options: SearchModalOptions = {}) {
 		super(app);
-		this.setPlaceholder("Search recent notes…");
+		this.limit = RENDER_LIMIT;
+		this.mode = options.queryMode ?? plugin.settings.queryMode;
+		this.setPlaceholder(PLACEHOLDERS[this.mode]);
 		this.setInstructions([
 			{ command: "↑↓",          purpose: "navigate" },
 			{ command: "↵",           purpose: "open" },
 			{ command: "ctrl ↵",      purpose: "open in new tab" },
 			{ command: "ctrl alt ↵",  purpose: "open to right" },
 			{ command: "shift ↵",     purpose: "create" },
+			{ command: "tab",         purpose: "toggle fuzzy / zoxide query" },
 			{ command: "esc",         purpose: "dismiss" },
 		]);
 
@@ -36,51 +80,112 @@ export class ZoxidianSearchModal extends SuggestModal<SortedEntry> {
 			this.createNote();
 			return false;
 		});
+		this.scope.register([], "Tab", (_evt: KeyboardEvent) => {
+			this.toggleMode();
+			return false;
+		});
 	}
 
-	getSuggestions(query: string): SortedEntry[] {
-		// No cap in the modal — show all tracked files
-		const tracked = this.plugin.getSortedEntries(false);
-
-		let all: SortedEntry[];
-		if (this.plugin.settings.includeUntrackedInModal) {
-			const trackedPaths = new Set(tracked.map(e => e.path));
-
-			let excludeRegex: RegExp | null = null;
-			const ep = this.plugin.settings.excludePaths.trim();
-			if (ep) {
-				try {
-					excludeRegex = new RegExp(ep);
-				} catch {
-					// Ignore invalid regex input.
-				}
-			}
+	onOpen(): void {
+		void super.onOpen();
+		if (!this.options.query) return;
+		this.inputEl.value = this.options.query;
+		this.inputEl.dispatchEvent(new Event("input"));
+	}
 
-			const untracked = this.getUntrackedEntries(trackedPaths, excludeRegex);
+	private toggleMode(): void {
+		this.mode = this.mode === "fuzzy" ? "zoxide" : "fuzzy";
+		this.setPlaceholder(PLACEHOLDERS[this.mode]);
+		// Re-run getSuggestions for the current input under the new mode.
+		this.inputEl.dispatchEvent(new Event("input"));
+	}
 
-			all = [
-				...tracked.map(e => ({ ...e, matches: null as [number, number][] | null })),
-				...untracked,
-			];
-		} else {
-			all = tracked.map(e => ({ ...e, matches: null as [number, number][] | null }));
-		}
+	getSuggestions(query: string): SortedEntry[] {
+		const all = this.candidates ?? (this.candidates = this.getCandidates());
 
 		const q = query.trim();
-		if (!q) return all;
+		if (!q) return this.withPinnedFirst(all);
+		if (this.mode === "zoxide") return this.getZoxideSuggestions(query, all);
+
 		const fuzzy = prepareFuzzySearch(q);
-		return all
-			.map(e => ({ ...e, matches: fuzzy(e.path)?.matches ?? null }))
+		const hits = all
+			.map(e => {
+				const result = fuzzy(e.path);
+				return { ...e, matches: result?.matches ?? null, matchScore: result?.score ?? 0 };
+			})
+			.filter(e => e.matches !== null);
+		return blendRanking(hits, q, this.plugin.settings.matchBalance);
+	}
+
+	private getCandidates(): SortedEntry[] {
+		// Every tracked note, not just the sidebar's "Max items"
+		let tracked: SortedEntry[] = this.plugin.getSortedEntries(false)
+			.map(e => ({ ...e, matches: null as [number, number][] | null }));
+		if (this.plugin.settings.trackSections) {
+			const sections = this.plugin.getSectionEntries().map(({ path, subpath, entry, frecency }) => ({
+				path: sectionKey(path, subpath),
+				entry,
+				frecency,
+				matches: null as [number, number][] | null,
+				section: true as const,
+			}));
+			tracked = [...tracked, ...sections].sort((a, b) => b.frecency - a.frecency);
+		}
+		if (!this.plugin.settings.includeUntrackedInModal) return tracked;
+
+		const trackedPaths = new Set(tracked.filter(e => !e.section).map(e => e.path));
+		return [...tracked, ...this.getUntrackedEntries(trackedPaths)];
+	}
+
+	private withPinnedFirst(all: SortedEntry[]): SortedEntry[] {
+		const pinned = this.plugin.getPinnedEntries()
+			.map(e => ({ ...e, matches: null as [number, number][] | null, pinned: true }));
+		const pinnedPaths = new Set(pinned.map(e => e.path));
+		return [...pinned, ...all.filter(e => !pinnedPaths.has(e.path))];
+	}
+
+	private getZoxideSuggestions(query: string, notes: SortedEntry[]): SortedEntry[] {
+		const parsed = parseZoxideQuery(query);
+		const candidates: SortedEntry[] = parsed.foldersOnly
+			? this.plugin.getFolderRanking().map(rank => ({
+				path: rank.path,
+				entry: { score: rank.score, lastAccess: 0, visits: [] },
+				frecency: rank.frecency,
+				matches: null,
+				folder: true,
+			}))
+			: notes;
+
+		return candidates
+			.map(e => ({ ...e, matches: matchZoxideQuery(parsed, e.path) }))
 			.filter(e => e.matches !== null);
 	}
 
-	renderSuggestion({ path, entry, frecency, matches, untracked }: SortedEntry, el: HTMLElement): void {
+	renderSuggestion({ path, entry, frecency, matches, untracked, folder, pinned, section }: SortedEntry, el: HTMLElement): void {
 		const row = el.createEl("div", { cls: "zoxidian-suggestion" });
 
 		const info = row.createEl("div", { cls: "zoxidian-suggestion-info" });
 		renderMatches(info.createEl("span", { cls: "suggestion-title" }), path, matches);
 
 		const badges = row.createEl("div", { cls: "zoxidian-badges" });
+		if (pinned) {
+			badges.createEl("span", {
+				cls: "zoxidian-badge zoxidian-badge-pinned",
+				text: "Pinned",
+			});
+		}
+		if (folder) {
+			badges.createEl("span", {
+				cls: "zoxidian-badge zoxidian-badge-folder",
+				text: "Folder",
+			});
+		}
+		if (section) {
+			badges.createEl("span", {
+				cls: "zoxidian-badge zoxidian-badge-section",
+				text: "Section",
+			});
+		}
 		if (untracked) {
 			badges.createEl("span", {
 				cls: "zoxidian-badge zoxidian-badge-untracked",
@@ -102,7 +207,23 @@ export class ZoxidianSearchModal extends SuggestModal<SortedEntry> {
 		}
 	}
 
-	onChooseSuggestion({ path }: SortedEntry, evt: MouseEvent | KeyboardEvent): void {
+	onChooseSuggestion({ path, folder, section }: SortedEntry, evt: MouseEvent | KeyboardEvent): void {
+		if (folder) {
+			const target = this.app.vault.getAbstractFileByPath(path);
+			if (target instanceof TFolder) {
+				this.plugin.recordFolderVisit(path);
+				revealInFileExplorer(this.app, target);
+			}
+			return;
+		}
+
+		const ref = section ? parseSectionKey(path) : null;
+		if (ref) {
+			const target = this.app.vault.getAbstractFileByPath(ref.path);
+			if (target instanceof TFile) void this.pickLeaf(evt).openFile(target, { eState: { subpath: `#${ref.subpath}` } });
+			return;
+		}
+
 		const file = this.app.vault.getAbstractFileByPath(path);
 		if (!(file instanceof TFile)) {
 			this.createMissingNote(path, evt);
@@ -139,24 +260,24 @@ export class ZoxidianSearchModal extends SuggestModal<SortedEntry> {
 			.catch(() => new Notice(`Could not create "${path}".`));
 	}
 
-	private getUntrackedEntries(trackedPaths: Set<string>, excludeRegex: RegExp | null): SortedEntry[] {
+	private getUntrackedEntries(trackedPaths: Set<string>): SortedEntry[] {
 		const untracked = this.app.vault.getMarkdownFiles()
-			.filter(f => !trackedPaths.has(f.path) && (!excludeRegex || !excludeRegex.test(f.path)))
+			.filter(f => !trackedPaths.has(f.path) && !this.plugin.isExcluded(f.path, "display"))
 			.map(f => ({
 				path: f.path,
-				entry: { score: 0, lastAccess: 0 },
+				entry: { score: 0, lastAccess: 0, visits: [] },
 				frecency: 0,
 				matches: null as [number, number][] | null,
 				untracked: true as const,
 			}));
 
 		const knownPaths = new Set<string>([...trackedPaths, ...untracked.map(u => u.path)]);
-		const missing = this.getMissingLinkEntries(knownPaths, excludeRegex);
+		const missing = this.getMissingLinkEntries(knownPaths);
 
 		return [...untracked, ...missing];
 	}
 
-	private getMissingLinkEntries(knownPaths: Set<string>, excludeRegex: RegExp | null): SortedEntry[] {
+	private getMissingLinkEntries(knownPaths: Set<string>): SortedEntry[] {
 		const unresolved = this.app.metadataCache.unresolvedLinks ?? {};
 		const missingPaths = new Set<string>();
 
@@ -169,7 +290,7 @@ export class ZoxidianSearchModal extends SuggestModal<SortedEntry> {
 				const path = this.resolveMissingLinkPath(linkpath, sourcePath);
 				if (!path) continue;
 				if (knownPaths.has(path)) continue;
-				if (excludeRegex && excludeRegex.test(path)) continue;
+				if (this.plugin.isExcluded(path, "display")) continue;
 
 				missingPaths.add(path);
 			}
@@ -177,7 +298,7 @@ export class ZoxidianSearchModal extends SuggestModal<SortedEntry> {
 
 		return [...missingPaths].map(path => ({
 			path,
-			entry: { score: 0, lastAccess: 0 },
+			entry: { score: 0, lastAccess: 0, visits: [] },
 			frecency: 0,
 			matches: null as [number, number][] | null,
 			untracked: true as const,
@@ -215,6 +336,9 @@ export class ZoxidianSearchModal extends SuggestModal<SortedEntry> {
 		if (isCtrlMeta) {
 			return this.app.workspace.getLeaf("tab");
 		}
+		if (this.options.paneType) {
+			return this.app.workspace.getLeaf(this.options.paneType);
+		}
 
 		const mostRecent = this.app.workspace.getMostRecentLeaf();
 		return this.plugin.settings.openInNewTab
@@ -0,0 +1,55 @@
+// ---------------------------------------------------------------------------
+// Pinned notes — an ordered list of paths shown above the frecency ranking.
+// Pins are independent of visit data: a pinned note need not be tracked, and
+// aging never prunes the entry of a pinned note. The helpers mutate the list
+// in place and report whether anything changed, like movePrefix/deletePrefix.
+// ---------------------------------------------------------------------------
+
+function isUnder(path: string, prefix: string): boolean {
+	return path === prefix || path.startsWith(`${prefix}/`);
+}
+
+/** Follow a note or folder rename. A pin that lands on an existing pin is dropped. */
+export function renamePins(pins: string[], oldPath: string, newPath: string): boolean {
+	let changed = false;
+	for (let i = 0; i < pins.length; i++) {
+		const pin = pins[i];
+		if (!isUnder(pin, oldPath)) continue;
+		pins[i] = newPath + pin.slice(oldPath.length);
+		changed = true;
+	}
+	if (changed) {
+		const unique = pins.filter((pin, i) => pins.indexOf(pin) === i);
+		pins.splice(0, pins.length, ...unique);
+	}
+	return changed;
+}
+
+/** Unpin a deleted note, or every note below a deleted folder. */
+export function removePins(pins: string[], path: string): boolean {
+	const kept = pins.filter(pin => !isUnder(pin, path));
+	if (kept.length === pins.length) return false;
+	pins.splice(0, pins.length, ...kept);
+	return true;
+}
+
+/** Move a pin to `toIndex` (clamped). Returns false when it is not pinned or already there. */
+export function movePin(pins: string[], path: string, toIndex: number): boolean {
+	const from = pins.indexOf(path);
+	if (from === -1) return false;
+	const to = Math.max(0, Math.min(pins.length - 1, toIndex));
+	if (from === to) return false;
+	pins.splice(from, 1);
+	pins.splice(to, 0, path);
+	return true;
+}
+
+/** Keep only unique string paths from persisted data. */
+export function normalizePins(raw: unknown): string[] {
+	if (!Array.isArray(raw)) return [];
+	const pins: string[] = [];
+	for (const item of raw) {
+		if (typeof item === "string" && item && !pins.includes(item)) pins.push(item);
+	}
+	return pins;
+}
@@ -0,0 +1,114 @@
+import { App, FuzzySuggestModal, Modal, Setting } from "obsidian";
+import type ZoxidianPlugin from "./main";
+
+// ---------------------------------------------------------------------------
+// Profile pickers and prompts used by the profile commands and the sidebar
+// header.
+// ---------------------------------------------------------------------------
+
+export class ProfileSwitchModal extends FuzzySuggestModal<string> {
+	constructor(app: App, private plugin: ZoxidianPlugin) {
+		super(app);
+		this.setPlaceholder("Switch to profile…");
+	}
+
+	getItems(): string[] {
+		return Object.keys(this.plugin.settings.profiles);
+	}
+
+	getItemText(id: string): string {
+		const name = this.plugin.settings.profiles[id]?.name ?? id;
+		return id === this.plugin.settings.activeProfile ? `${name} (active)` : name;
+	}
+
+	onChooseItem(id: string): void {
+		this.plugin.switchProfile(id);
+	}
+}
+
+/** Asks for a profile name; `onSubmit` only runs with a non-empty name. */
+export class ProfileNameModal extends Modal {
+	constructor(app: App, private title: string, private initial: string, private onSubmit: (name: string) => void) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.setTitle(this.title);
+
+		let name = this.initial;
+		const submit = () => {
+			if (!name.trim()) return;
+			this.onSubmit(name.trim());
+			this.close();
+		};
+
+		new Setting(contentEl)
+			.setName("Name")
+			.addText((text) => {
+				text
+					.setValue(name)
+					.onChange((value) => { name = value; });
+				text.inputEl.addEventListener("keydown", (e: KeyboardEvent) => {
+					if (e.key === "Enter") submit();
+				});
+			});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Cancel")
+					.onClick(() => this.close())
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Save")
+					.setCta()
+					.onClick(submit)
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
+export class ProfileDeleteModal extends Modal {
+	constructor(app: App, private plugin: ZoxidianPlugin, private id: string) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.setTitle("Delete profile");
+
+		const name  = this.plugin.settings.profiles[this.id]?.name ?? this.id;
+		const count = Object.keys(this.plugin.getMergedData(this.id).files).length;
+		contentEl.createEl("p", {
+			cls: "zoxidian-settings-desc",
+			text: `Delete "${name}" and the visit data of its ${count} note(s)? This cannot be undone.`,
+		});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Cancel")
+					.onClick(() => this.close())
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Delete")
+					.setWarning()
+					.onClick(() => {
+						this.plugin.deleteProfile(this.id);
+						this.close();
+					})
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,131 @@
+import type { FileEntry, ScoringStrategy } from "./types";
+import { copyEntry, normalizeFiles } from "./visits";
+
+// ---------------------------------------------------------------------------
+// Profiles — separate frecency databases in one vault (say, work and
+// personal). Every profile has its own note and folder maps; visits are only
+// recorded into the active one. A profile can override a few ranking
+// settings and can activate itself when a note under one of its folders is
+// opened.
+//
+// Profile names, overrides and folders are settings; the visit maps are
+// stored next to the default profile's maps (data.json or the device shard).
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_PROFILE_ID = "default";
+
+/** Settings a profile may override; anything unset falls back to the global value. */
+export interface ProfileOverrides {
+	scoringStrategy?: ScoringStrategy;
+	maxItems?: number;
+	maxAge?: number;
+}
+
+export interface ProfileMeta {
+	name: string;
+	overrides: ProfileOverrides;
+	/** Folders whose notes switch to this profile when opened. */
+	autoActivate: string[];
+}
+
+export interface ProfileData {
+	files: Record<string, FileEntry>;
+	folders: Record<string, FileEntry>;
+	/** Heading and block visits, keyed `path#heading` (see sections.ts). */
+	sections: Record<string, FileEntry>;
+}
+
+export function emptyProfileData(): ProfileData {
+	return { files: {}, folders: {}, sections: {} };
+}
+
+export function defaultProfiles(): Record<string, ProfileMeta> {
+	return { [DEFAULT_PROFILE_ID]: { name: "Default", overrides: {}, autoActivate: [] } };
+}
+
+const STRATEGIES: readonly ScoringStrategy[] = ["zoxide", "decay", "firefox"];
+
+function normalizeOverrides(raw: unknown): ProfileOverrides {
+	const overrides: ProfileOverrides = {};
+	if (typeof raw !== "object" || raw === null) return overrides;
+	const data = raw as Record<string, unknown>;
+	if (STRATEGIES.includes(data.scoringStrategy as ScoringStrategy)) {
+		overrides.scoringStrategy = data.scoringStrategy as ScoringStrategy;
+	}
+	if (typeof data.maxItems === "number" && data.maxItems > 0) overrides.maxItems = data.maxItems;
+	if (typeof data.maxAge === "number" && data.maxAge > 0) overrides.maxAge = data.maxAge;
+	return overrides;
+}
+
+/** Validate saved profiles; the default profile always exists. */
+export function normalizeProfiles(raw: unknown): Record<string, ProfileMeta> {
+	const profiles = defaultProfiles();
+	if (typeof raw !== "object" || raw === null) return profiles;
+
+	for (const [id, value] of Object.entries(raw as Record<string, unknown>)) {
+		if (typeof value !== "object" || value === null) continue;
+		const data = value as Partial<ProfileMeta>;
+		const fallback = id === DEFAULT_PROFILE_ID ? "Default" : id;
+		profiles[id] = {
+			name:         typeof data.name === "string" && data.name.trim() ? data.name : fallback,
+			overrides:    normalizeOverrides(data.overrides),
+			autoActivate: Array.isArray(data.autoActivate)
+				? data.autoActivate.filter((f): f is string => typeof f === "string" && f.trim() !== "")
+				: [],
+		};
+	}
+	return profiles;
+}
+
+/** Validate the saved visit maps of the non-default profiles. */
+export function normalizeProfileData(raw: unknown, cap: number): Record<string, ProfileData> {
+	const data: Record<string, ProfileData> = {};
+	if (typeof raw !== "object" || raw === null) return data;
+	for (const [id, value] of Object.entries(raw as Record<string, Partial<ProfileData> | null>)) {
+		if (id === DEFAULT_PROFILE_ID) continue;
+		data[id] = {
+			files:    normalizeFiles(value?.files, cap),
+			folders:  normalizeFiles(value?.folders, cap),
+			sections: normalizeFiles(value?.sections, cap),
+		};
+	}
+	return data;
+}
+
+/** A new id derived from `name` that is not in `existing`. */
+export function newProfileId(name: string, existing: Record<string, unknown>): string {
+	const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "profile";
+	let id = base;
+	for (let n = 2; id in existing; n++) id = `${base}-${n}`;
+	return id;
+}
+
+/**
+ * The profile whose auto-activate folders contain `path`, or null. The
+ * deepest folder wins when several profiles claim a path.
+ */
+export function profileForPath(profiles: Record<string, ProfileMeta>, path: string): string | null {
+	let best: string | null = null;
+	let bestLength = -1;
+	for (const [id, profile] of Object.entries(profiles)) {
+		for (const raw of profile.autoActivate) {
+			const folder = raw.trim().replace(/^\/+|\/+$/g, "");
+			if (!folder || (path !== folder && !path.startsWith(`${folder}/`))) continue;
+			if (folder.length > bestLength) {
+				best = id;
+				bestLength = folder.length;
+			}
+		}
+	}
+	return best;
+}
+
+/** Deep copy of a profile's visit maps, for duplicating a profile. */
+export function cloneProfileData(data: ProfileData): ProfileData {
+	const copy = (map: Record<string, FileEntry>) => {
+		const out: Record<string, FileEntry> = {};
+		for (const [path, entry] of Object.entries(map)) out[path] = copyEntry(entry);
+		return out;
+	};
+	return { files: copy(data.files), folders: copy(data.folders), sections: copy(data.sections) };
+}
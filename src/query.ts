@@ -0,0 +1,59 @@
+// ---------------------------------------------------------------------------
+// zoxide query semantics — an alternative to fuzzy matching that follows
+// zoxide's `z foo bar` rules:
+//
+//   - The query is split into space-separated keywords.
+//   - Every keyword must appear in the path, in the order given.
+//   - The last keyword must match within the last path component.
+//   - A keyword is case-insensitive unless it contains an uppercase letter.
+//   - A trailing "/" restricts results to folders.
+//
+// Like zoxide, matching runs right to left: the last keyword binds to its
+// rightmost occurrence and each earlier keyword to the rightmost occurrence
+// before that.
+// ---------------------------------------------------------------------------
+
+export type QueryMode = "fuzzy" | "zoxide";
+
+export interface ZoxideQuery {
+	keywords: string[];
+	foldersOnly: boolean;
+}
+
+export function parseZoxideQuery(query: string): ZoxideQuery {
+	const trimmed = query.trim();
+	return {
+		keywords:    trimmed.split(/\s+/).filter(k => k.length > 0 && k !== "/"),
+		foldersOnly: trimmed.endsWith("/"),
+	};
+}
+
+/**
+ * Match a parsed query against a path. Returns the matched character ranges
+ * (suitable for `renderMatches`) in ascending order, or null when the path
+ * does not match. An empty keyword list matches everything.
+ */
+export function matchZoxideQuery({ keywords }: ZoxideQuery, path: string): [number, number][] | null {
+	const ranges: [number, number][] = [];
+	let end = path.length;
+
+	for (let i = keywords.length - 1; i >= 0; i--) {
+		// A keyword like "notes/" still has to match, minus its separator.
+		const raw     = keywords[i] ?? "";
+		const keyword = raw.endsWith("/") && raw.length > 1 ? raw.slice(0, -1) : raw;
+		const smart   = keyword !== keyword.toLowerCase();
+		const hay     = smart ? path.slice(0, end) : path.slice(0, end).toLowerCase();
+		const needle  = smart ? keyword : keyword.toLowerCase();
+
+		const idx = hay.lastIndexOf(needle);
+		if (idx === -1) return null;
+
+		// The last keyword must fall inside the last path component.
+		if (i === keywords.length - 1 && path.slice(idx + needle.length).includes("/")) return null;
+
+		ranges.unshift([idx, idx + needle.length]);
+		end = idx;
+	}
+
+	return ranges;
+}
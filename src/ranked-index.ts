@@ -0,0 +1,104 @@
+import type { FileEntry } from "./types";
+
+// ---------------------------------------------------------------------------
+// Ranked index — the frecency order of the note map, kept between calls so
+// the sidebar and the modal do not re-sort the whole map on every redraw.
+//
+// A full rebuild scores and sorts every note. After that, a visit, edit or
+// dwell bonus only changes one entry, so `update` takes that entry out and
+// binary-searches its new position: O(log n) to find it plus the array
+// splice, instead of O(n log n).
+//
+// Frecencies are computed for one point in time (the caller's `score`
+// closure decides which); the owner rebuilds periodically so bucket
+// boundaries and decay catch up.
+// ---------------------------------------------------------------------------
+
+export interface RankedEntry {
+	path: string;
+	entry: FileEntry;
+	frecency: number;
+}
+
+export class RankedIndex {
+	/** Highest frecency first. */
+	private items: RankedEntry[] = [];
+	private byPath = new Map<string, RankedEntry>();
+
+	get entries(): readonly RankedEntry[] {
+		return this.items;
+	}
+
+	get size(): number {
+		return this.items.length;
+	}
+
+	has(path: string): boolean {
+		return this.byPath.has(path);
+	}
+
+	rebuild(files: Record<string, FileEntry>, include: (path: string) => boolean, score: (entry: FileEntry) => number): void {
+		this.items = Object.entries(files)
+			.filter(([path]) => include(path))
+			.map(([path, entry]) => ({ path, entry, frecency: score(entry) }))
+			.sort((a, b) => b.frecency - a.frecency);
+		this.byPath = new Map(this.items.map(item => [item.path, item]));
+	}
+
+	/**
+	 * Re-rank one note after its entry changed. Pass `entry` undefined, or
+	 * `included` false, to drop it. Returns true when the index changed.
+	 */
+	update(path: string, entry: FileEntry | undefined, included: boolean, score: (entry: FileEntry) => number): boolean {
+		const removed = this.remove(path);
+		if (!entry || !included) return removed;
+
+		const item = { path, entry, frecency: score(entry) };
+		this.items.splice(this.upperBound(item.frecency), 0, item);
+		this.byPath.set(path, item);
+		return true;
+	}
+
+	private remove(path: string): boolean {
+		const item = this.byPath.get(path);
+		if (!item) return false;
+		this.byPath.delete(path);
+
+		// Items with equal frecency sit together; scan that run for the path.
+		for (let i = this.lowerBound(item.frecency); i < this.items.length; i++) {
+			if (this.items[i] === item) {
+				this.items.splice(i, 1);
+				return true;
+			}
+			if (this.items[i]?.frecency !== item.frecency) break;
+		}
+		// Not where its frecency says; fall back to a scan.
+		const index = this.items.indexOf(item);
+		if (index !== -1) this.items.splice(index, 1);
+		return true;
+	}
+
+	/** First index whose frecency is not above `frecency`. */
+	private lowerBound(frecency: number): number {
+		let lo = 0;
+		let hi = this.items.length;
+		while (lo < hi) {
+			const mid = (lo + hi) >>> 1;
+			if ((this.items[mid]?.frecency ?? 0) > frecency) lo = mid + 1;
+			else hi = mid;
+		}
+		return lo;
+	}
+
+	/** First index whose frecency is below `frecency`, so ties keep arrival order. */
+	private upperBound(frecency: number): number {
+		let lo = 0;
+		let hi = this.items.length;
+		while (lo < hi) {
+			const mid = (lo + hi) >>> 1;
+			if ((this.items[mid]?.frecency ?? 0) >= frecency) lo = mid + 1;
+			else hi = mid;
+		}
+		return lo;
+	}
+}
@@ -0,0 +1,72 @@
+// ---------------------------------------------------------------------------
+// Blended ranking — when a query is typed in the search modal, results are
+// ordered by a mix of match quality and frecency instead of frecency alone:
+//
+//   combined = balance × match + (1 − balance) × frecency
+//
+// Both terms are normalised to 0–1 over the current result set. Frecency is
+// log-scaled so a single very hot note does not flatten everything else.
+// Match quality is the fuzzy score plus a bonus when the query hits the
+// note's basename, so an exact name match on a cold (or untracked) note can
+// beat a scattered hit on a hot one.
+// ---------------------------------------------------------------------------
+
+export interface RankCandidate {
+	path: string;
+	frecency: number;
+	/** Raw score from `prepareFuzzySearch` — higher is better, usually ≤ 0. */
+	matchScore: number;
+}
+
+const EXACT_BONUS    = 0.4;
+const PREFIX_BONUS   = 0.25;
+const CONTAINS_BONUS = 0.15;
+
+export function basenameOf(path: string): string {
+	const name = path.slice(path.lastIndexOf("/") + 1);
+	const dot  = name.lastIndexOf(".");
+	return dot > 0 ? name.slice(0, dot) : name;
+}
+
+export function basenameBonus(query: string, path: string): number {
+	const q    = query.trim().toLowerCase();
+	const name = basenameOf(path).toLowerCase();
+	if (!q) return 0;
+	if (name === q)        return EXACT_BONUS;
+	if (name.startsWith(q)) return PREFIX_BONUS;
+	if (name.includes(q))   return CONTAINS_BONUS;
+	return 0;
+}
+
+/**
+ * Order candidates by the blended score. `balance` is clamped to 0–1:
+ * 0 ranks by frecency alone, 1 by match quality alone. The sort is stable,
+ * so ties keep their incoming (frecency) order.
+ */
+export function blendRanking<T extends RankCandidate>(candidates: T[], query: string, balance: number): T[] {
+	if (candidates.length === 0) return candidates;
+	const weight = Math.min(1, Math.max(0, balance));
+
+	let minMatch = Infinity;
+	let maxMatch = -Infinity;
+	let maxFrecency = 0;
+	for (const c of candidates) {
+		minMatch    = Math.min(minMatch, c.matchScore);
+		maxMatch    = Math.max(maxMatch, c.matchScore);
+		maxFrecency = Math.max(maxFrecency, c.frecency);
+	}
+	const matchRange  = maxMatch - minMatch;
+	const frecencyLog = Math.log1p(maxFrecency);
+
+	const combined = (c: RankCandidate) => {
+		const fuzzy    = matchRange > 0 ? (c.matchScore - minMatch) / matchRange : 1;
+		const match    = Math.min(1, (1 - EXACT_BONUS) * fuzzy + basenameBonus(query, c.path));
+		const frecency = frecencyLog > 0 ? Math.log1p(Math.max(0, c.frecency)) / frecencyLog : 0;
+		return weight * match + (1 - weight) * frecency;
+	};
+
+	return candidates
+		.map((c, i) => ({ c, i, score: combined(c) }))
+		.sort((a, b) => b.score - a.score || a.i - b.i)
+		.map(({ c }) => c);
+}
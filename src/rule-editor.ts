@@ -0,0 +1,143 @@
+import { Setting } from "obsidian";
+import type ZoxidianPlugin from "./main";
+import { ExclusionRule, RULE_PLACEHOLDERS, RULE_TYPE_LABELS, RuleEffect, RuleScope, RuleType } from "./rules";
+import { debounce } from "./utils";
+
+// ---------------------------------------------------------------------------
+// Exclusion rule editor — one row per rule in the General settings. Every
+// edit is saved right away, except a pattern being typed, which is saved
+// (and matched against the vault) once typing pauses for PATTERN_SETTLE_MS.
+// A rule whose pattern does not compile stays in the list with its error
+// shown underneath and is ignored until fixed.
+// ---------------------------------------------------------------------------
+
+const PATTERN_SETTLE_MS = 500;
+
+const EFFECT_LABELS: Record<RuleEffect, string> = {
+	exclude: "Exclude",
+	include: "Include",
+};
+
+const SCOPE_LABELS: Record<RuleScope, string> = {
+	both:     "Tracking and display",
+	tracking: "Tracking only",
+	display:  "Display only",
+};
+
+export function renderRuleEditor(parent: HTMLElement, plugin: ZoxidianPlugin): void {
+	const rules = plugin.settings.exclusionRules.map(rule => ({ ...rule }));
+	const wrap  = parent.createEl("div", { cls: "zoxidian-rule-editor" });
+
+	const commit = async () => {
+		plugin.settings.exclusionRules = rules.map(rule => ({ ...rule }));
+		plugin.recompileRules();
+		await plugin.persistData();
+		plugin.redrawViews();
+	};
+
+	const render = () => {
+		wrap.empty();
+
+		rules.forEach((rule, i) => {
+			const setting  = new Setting(wrap).setClass("zoxidian-rule-row");
+			const statusEl = wrap.createEl("p", { cls: "zoxidian-rule-status" });
+
+			const updateStatus = () => {
+				const status = plugin.describeRule(rule);
+				statusEl.setText(status.error ?? `Matches ${status.matches} note(s)`);
+				statusEl.toggleClass("zoxidian-rule-error", status.error !== null);
+			};
+			const settlePattern = debounce(() => {
+				updateStatus();
+				void commit();
+			}, PATTERN_SETTLE_MS);
+
+			setting
+				.addDropdown((dropdown) => {
+					for (const [value, label] of Object.entries(EFFECT_LABELS)) dropdown.addOption(value, label);
+					dropdown
+						.setValue(rule.effect)
+						.onChange(async (value) => {
+							rule.effect = value as RuleEffect;
+							await commit();
+						});
+				})
+				.addDropdown((dropdown) => {
+					for (const [value, label] of Object.entries(RULE_TYPE_LABELS)) dropdown.addOption(value, label);
+					dropdown
+						.setValue(rule.type)
+						.onChange(async (value) => {
+							rule.type = value as RuleType;
+							render();
+							await commit();
+						});
+				})
+				.addText((text) =>
+					text
+						.setPlaceholder(RULE_PLACEHOLDERS[rule.type])
+						.setValue(rule.pattern)
+						.onChange((value) => {
+							rule.pattern = value;
+							settlePattern();
+						})
+				)
+				.addDropdown((dropdown) => {
+					for (const [value, label] of Object.entries(SCOPE_LABELS)) dropdown.addOption(value, label);
+					dropdown
+						.setValue(rule.scope)
+						.onChange(async (value) => {
+							rule.scope = value as RuleScope;
+							await commit();
+						});
+				})
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("arrow-up")
+						.setTooltip("Move up")
+						.setDisabled(i === 0)
+						.onClick(async () => {
+							rules.splice(i - 1, 0, ...rules.splice(i, 1));
+							render();
+							await commit();
+						})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("arrow-down")
+						.setTooltip("Move down")
+						.setDisabled(i === rules.length - 1)
+						.onClick(async () => {
+							rules.splice(i + 1, 0, ...rules.splice(i, 1));
+							render();
+							await commit();
+						})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("trash")
+						.setTooltip("Remove rule")
+						.onClick(async () => {
+							rules.splice(i, 1);
+							render();
+							await commit();
+						})
+				);
+
+			updateStatus();
+		});
+
+		new Setting(wrap)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Add rule")
+					.onClick(async () => {
+						const rule: ExclusionRule = { type: "glob", pattern: "", effect: "exclude", scope: "both" };
+						rules.push(rule);
+						render();
+						await commit();
+					})
+			);
+	};
+
+	render();
+}
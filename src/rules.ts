@@ -0,0 +1,191 @@
+// ---------------------------------------------------------------------------
+// Exclusion rules — an ordered list deciding which notes are tracked and
+// which are shown. Each rule matches notes by path (glob or regex), by tag,
+// or by a frontmatter key, and either excludes or re-includes them. Like
+// .gitignore, the last matching rule wins; a note no rule matches is kept.
+//
+// Rules are compiled once (whenever the settings change) so ranking and the
+// search modal only run the compiled tests. A rule whose pattern does not
+// compile is skipped, and its error is shown in the settings.
+// ---------------------------------------------------------------------------
+
+export type RuleType   = "glob" | "regex" | "tag" | "frontmatter";
+export type RuleEffect = "include" | "exclude";
+export type RuleScope  = "tracking" | "display" | "both";
+
+export interface ExclusionRule {
+	type: RuleType;
+	pattern: string;
+	effect: RuleEffect;
+	scope: RuleScope;
+}
+
+/** What tag and frontmatter rules need to know about a note. */
+export interface NoteMeta {
+	tags: string[];
+	frontmatter: Record<string, unknown>;
+}
+
+export interface CompiledRule {
+	rule: ExclusionRule;
+	/** True when the rule needs metadata rather than just the path. */
+	needsMeta: boolean;
+	matches: (path: string, meta: NoteMeta | null) => boolean;
+}
+
+export interface CompiledRules {
+	rules: CompiledRule[];
+	/** One entry per input rule: the compile error, or null. */
+	errors: Array<string | null>;
+}
+
+export const RULE_TYPE_LABELS: Record<RuleType, string> = {
+	glob:        "Glob",
+	regex:       "Regex",
+	tag:         "Tag",
+	frontmatter: "Frontmatter",
+};
+
+export const RULE_PLACEHOLDERS: Record<RuleType, string> = {
+	glob:        "daily/**",
+	regex:       "^daily/",
+	tag:         "#private",
+	frontmatter: "zoxidian: false",
+};
+
+/**
+ * Translate a path glob into a regex. `**` matches across folders, `*` and
+ * `?` stay within one path segment. A pattern without a slash matches the
+ * note name in any folder, so `*.excalidraw.md` works anywhere.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let source = "";
+	for (let i = 0; i < glob.length; i++) {
+		const ch = glob.charAt(i);
+		if (ch === "*" && glob[i + 1] === "*") {
+			// "**/" also matches zero folders.
+			if (glob[i + 2] === "/") {
+				source += "(?:.*/)?";
+				i += 2;
+			} else {
+				source += ".*";
+				i += 1;
+			}
+		} else if (ch === "*") {
+			source += "[^/]*";
+		} else if (ch === "?") {
+			source += "[^/]";
+		} else {
+			source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(glob.includes("/") ? `^${source}$` : `(?:^|/)${source}$`);
+}
+
+function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+function compileOne(rule: ExclusionRule): CompiledRule {
+	const pattern = rule.pattern.trim();
+	if (!pattern) throw new Error("Pattern is empty");
+
+	switch (rule.type) {
+		case "glob": {
+			const regex = globToRegExp(pattern);
+			return { rule, needsMeta: false, matches: (path) => regex.test(path) };
+		}
+		case "regex": {
+			const regex = new RegExp(pattern);
+			return { rule, needsMeta: false, matches: (path) => regex.test(path) };
+		}
+		case "tag": {
+			// A tag also matches its nested tags: #project matches #project/alpha.
+			const tag = normalizeTag(pattern);
+			if (!tag || /\s/.test(tag)) throw new Error("Not a valid tag");
+			return {
+				rule,
+				needsMeta: true,
+				matches: (_path, meta) => !!meta?.tags.some(t => {
+					const own = normalizeTag(t);
+					return own === tag || own.startsWith(`${tag}/`);
+				}),
+			};
+		}
+		case "frontmatter": {
+			// "key" matches any value; "key: value" compares as text.
+			const colon = pattern.indexOf(":");
+			const key   = (colon === -1 ? pattern : pattern.slice(0, colon)).trim();
+			const value = colon === -1 ? null : pattern.slice(colon + 1).trim();
+			if (!key) throw new Error("Missing frontmatter key");
+			return {
+				rule,
+				needsMeta: true,
+				matches: (_path, meta) => {
+					if (!meta || !(key in meta.frontmatter)) return false;
+					if (value === null) return true;
+					const actual = meta.frontmatter[key];
+					const values = Array.isArray(actual) ? actual : [actual];
+					return values.some(v => String(v) === value);
+				},
+			};
+		}
+	}
+}
+
+export function compileRules(rules: readonly ExclusionRule[]): CompiledRules {
+	const compiled: CompiledRule[] = [];
+	const errors: Array<string | null> = [];
+	for (const rule of rules) {
+		try {
+			compiled.push(compileOne(rule));
+			errors.push(null);
+		} catch (err) {
+			errors.push(err instanceof Error ? err.message : String(err));
+		}
+	}
+	return { rules: compiled, errors };
+}
+
+/**
+ * Whether `path` is excluded for `scope`. Metadata is only looked up when a
+ * tag or frontmatter rule applies, since it costs a cache lookup per note.
+ */
+export function isExcluded(
+	compiled: CompiledRules,
+	path: string,
+	scope: Exclude<RuleScope, "both">,
+	getMeta: (path: string) => NoteMeta | null,
+): boolean {
+	let excluded = false;
+	let meta: NoteMeta | null | undefined;
+	for (const { rule, needsMeta, matches } of compiled.rules) {
+		if (rule.scope !== "both" && rule.scope !== scope) continue;
+		if (needsMeta && meta === undefined) meta = getMeta(path);
+		if (matches(path, meta ?? null)) excluded = rule.effect === "exclude";
+	}
+	return excluded;
+}
+
+/** Drop malformed rules from persisted data. */
+export function normalizeRules(raw: unknown): ExclusionRule[] {
+	if (!Array.isArray(raw)) return [];
+	return raw.flatMap((r: Partial<ExclusionRule> | null): ExclusionRule[] => {
+		if (!r || typeof r.pattern !== "string" || !r.type || !(r.type in RULE_TYPE_LABELS)) return [];
+		return [{
+			type:    r.type,
+			pattern: r.pattern,
+			effect:  r.effect === "include" ? "include" : "exclude",
+			scope:   r.scope === "tracking" || r.scope === "display" ? r.scope : "both",
+		}];
+	});
+}
+
+/**
+ * Rule list for settings saved before rules existed: the single
+ * `excludePaths` regex only ever hid notes, so it becomes a display rule.
+ */
+export function migrateExcludePaths(excludePaths: unknown): ExclusionRule[] {
+	if (typeof excludePaths !== "string" || !excludePaths.trim()) return [];
+	return [{ type: "regex", pattern: excludePaths.trim(), effect: "exclude", scope: "display" }];
+}
@@ -0,0 +1,121 @@
+import type { FileEntry } from "./types";
+import { mergeEntries } from "./visits";
+
+// ---------------------------------------------------------------------------
+// Section tracking — optional frecency for the headings and blocks inside a
+// note, for long MOCs and reference notes where the same few sections keep
+// coming back. Entries live in their own map keyed `path#heading` or
+// `path#^block`; Obsidian does not allow "#" in file names, so the first
+// "#" always ends the path.
+//
+// The section of a visit comes from the link's subpath when the note was
+// opened through one, else from the heading (or block) at the top of the
+// view. Renames move a note's sections with it; a renamed heading is matched
+// up by position when the note's heading list changes (reconcileHeadings).
+// ---------------------------------------------------------------------------
+
+export interface SectionRef {
+	path: string;
+	/** Heading text, or `^id` for a block. */
+	subpath: string;
+}
+
+interface Positioned {
+	position: { start: { line: number }; end: { line: number } };
+}
+
+/** The parts of Obsidian's CachedMetadata that locate sections. */
+export interface SectionCache {
+	headings?: Array<Positioned & { heading: string }>;
+	blocks?: Record<string, Positioned & { id: string }>;
+}
+
+export function sectionKey(path: string, subpath: string): string {
+	return `${path}#${subpath}`;
+}
+
+export function parseSectionKey(key: string): SectionRef | null {
+	const hash = key.indexOf("#");
+	if (hash <= 0 || hash === key.length - 1) return null;
+	return { path: key.slice(0, hash), subpath: key.slice(hash + 1) };
+}
+
+/**
+ * A link subpath as Obsidian passes it (`#Heading`, `#Parent#Child` or
+ * `#^block`) reduced to the section it lands on, or null when empty.
+ */
+export function normalizeSubpath(subpath: string): string | null {
+	const parts = subpath.split("#").map(p => p.trim()).filter(p => p.length > 0);
+	return parts[parts.length - 1] ?? null;
+}
+
+/** The section shown at `line`: a block spanning it, else the last heading above it. */
+export function sectionAtLine(cache: SectionCache | null, line: number): string | null {
+	if (!cache) return null;
+	for (const block of Object.values(cache.blocks ?? {})) {
+		if (block.position.start.line <= line && line <= block.position.end.line) return `^${block.id}`;
+	}
+	let heading: string | null = null;
+	for (const h of cache.headings ?? []) {
+		if (h.position.start.line > line) break;
+		heading = h.heading;
+	}
+	return heading;
+}
+
+/** Move every section of `oldPath` to `newPath`, merging into existing ones. Returns true when any moved. */
+export function moveSections(map: Record<string, FileEntry>, oldPath: string, newPath: string, cap: number): boolean {
+	let moved = false;
+	for (const key of Object.keys(map)) {
+		if (!key.startsWith(`${oldPath}#`)) continue;
+		const entry = map[key];
+		if (!entry) continue;
+		const target   = newPath + key.slice(oldPath.length);
+		const existing = map[target];
+		map[target] = existing ? mergeEntries(existing, entry, cap) : entry;
+		delete map[key];
+		moved = true;
+	}
+	return moved;
+}
+
+/** Drop every section of `path`. Returns true when any was removed. */
+export function removeSections(map: Record<string, FileEntry>, path: string): boolean {
+	let removed = false;
+	for (const key of Object.keys(map)) {
+		if (!key.startsWith(`${path}#`)) continue;
+		delete map[key];
+		removed = true;
+	}
+	return removed;
+}
+
+/**
+ * Headings that were renamed between two versions of a note's heading list,
+ * as [old, new] pairs. Only same-position changes count, and only when the
+ * old text is gone and the new text is new — reordering, adding or removing
+ * headings is not a rename.
+ */
+export function reconcileHeadings(before: readonly string[], after: readonly string[]): Array<[string, string]> {
+	if (before.length !== after.length) return [];
+	const renames: Array<[string, string]> = [];
+	for (let i = 0; i < before.length; i++) {
+		const from = before[i];
+		const to   = after[i];
+		if (from === undefined || to === undefined || from === to) continue;
+		if (after.includes(from) || before.includes(to)) continue;
+		renames.push([from, to]);
+	}
+	return renames;
+}
+
+/** Move the section `from` of `path` to the heading `to`. Returns true when it was tracked. */
+export function renameSection(map: Record<string, FileEntry>, path: string, from: string, to: string, cap: number): boolean {
+	const entry = map[sectionKey(path, from)];
+	if (!entry) return false;
+	const target   = sectionKey(path, to);
+	const existing = map[target];
+	map[target] = existing ? mergeEntries(existing, entry, cap) : entry;
+	delete map[sectionKey(path, from)];
+	return true;
+}
@@ -0,0 +1,78 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import type ZoxidianPlugin from "./main";
+import type { FileEntry } from "./types";
+import { formatScore } from "./utils";
+
+/** How many seeded notes the preview lists. */
+const PREVIEW_LIMIT = 25;
+
+export class SeedPreviewModal extends Modal {
+	constructor(app: App, private plugin: ZoxidianPlugin, private entries: Record<string, FileEntry>, private onDone: () => void) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.setTitle("Seed database");
+
+		const rows  = Object.entries(this.entries).sort(([, a], [, b]) => b.score - a.score);
+		const total = rows.reduce((sum, [, e]) => sum + e.score, 0);
+
+		if (rows.length === 0) {
+			contentEl.createEl("p", {
+				cls: "zoxidian-settings-desc",
+				text: "No recently opened or recently modified notes were found. Nothing to import.",
+			});
+			return;
+		}
+
+		contentEl.createEl("p", {
+			cls: "zoxidian-settings-desc",
+			text: `${rows.length} note(s) will be added with a total score of ${total.toFixed(1)} ` +
+				`(max age ${this.plugin.settings.maxAge}). Notes that are already tracked are left unchanged.`,
+		});
+
+		const table = contentEl.createEl("table", { cls: "zoxidian-algo-table" });
+		const hrow  = table.createEl("thead").createEl("tr");
+		hrow.createEl("th", { text: "Note" });
+		hrow.createEl("th", { text: "Score" });
+		hrow.createEl("th", { text: "Last modified" });
+
+		const tbody = table.createEl("tbody");
+		for (const [path, entry] of rows.slice(0, PREVIEW_LIMIT)) {
+			const tr = tbody.createEl("tr");
+			tr.createEl("td", { text: path });
+			tr.createEl("td", { cls: "zoxidian-algo-mult", text: formatScore(entry.score) });
+			tr.createEl("td", { text: new Date(entry.lastAccess).toLocaleDateString() });
+		}
+		if (rows.length > PREVIEW_LIMIT) {
+			contentEl.createEl("p", {
+				cls: "zoxidian-settings-desc",
+				text: `…and ${rows.length - PREVIEW_LIMIT} more.`,
+			});
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Cancel")
+					.onClick(() => this.close())
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Import")
+					.setCta()
+					.onClick(() => {
+						const added = this.plugin.applySeed(this.entries);
+						new Notice(`Seeded ${added} note(s).`);
+						this.onDone();
+						this.close();
+					})
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
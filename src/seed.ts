@@ -0,0 +1,69 @@
+import { applyAging, DAY, WEEK } from "./frecency";
+import type { FileEntry } from "./types";
+import { trimVisits } from "./visits";
+
+// ---------------------------------------------------------------------------
+// Seeding — a fresh install starts with an empty database even though
+// Obsidian already knows which notes were opened recently and when every
+// note was last modified. A one-time seed turns that into starting entries:
+//
+//   Source                        | Base score
+//   ------------------------------|-----------
+//   Recent-files list, position i | RECENT_TOP − i (at least 1)
+//   Modified within the last day  | + 3
+//   Modified within the last week | + 2
+//   Modified within 30 days       | + 1
+//
+// The last access is the note's modification time, which is the best real
+// timestamp available. If the seed would exceed Max age it is aged down
+// the same way regular scores are.
+// ---------------------------------------------------------------------------
+
+const RECENT_TOP = 10;
+
+export interface SeedSource {
+	path: string;
+	mtime: number;
+}
+
+export function mtimeScore(mtime: number, now: number): number {
+	const age = now - mtime;
+	if (age < DAY)      return 3;
+	if (age < WEEK)     return 2;
+	if (age < 30 * DAY) return 1;
+	return 0;
+}
+
+/**
+ * Build seed entries. `recent` is the workspace's recent-files list, most
+ * recent first; `notes` are all candidate notes with their mtimes. Paths in
+ * `recent` that are not among `notes` (deleted or excluded) are ignored.
+ */
+export function buildSeedEntries(
+	recent: string[],
+	notes: SeedSource[],
+	maxAge: number,
+	visitLogSize: number,
+	now = Date.now(),
+): Record<string, FileEntry> {
+	const mtimes = new Map(notes.map(n => [n.path, n.mtime]));
+	const scores = new Map<string, number>();
+
+	recent.forEach((path, i) => {
+		if (!mtimes.has(path) || scores.has(path)) return;
+		scores.set(path, Math.max(1, RECENT_TOP - i));
+	});
+
+	for (const { path, mtime } of notes) {
+		const score = mtimeScore(mtime, now);
+		if (score > 0) scores.set(path, (scores.get(path) ?? 0) + score);
+	}
+
+	const entries: Record<string, FileEntry> = {};
+	for (const [path, score] of scores) {
+		const lastAccess = Math.min(mtimes.get(path) ?? now, now);
+		entries[path] = { score, lastAccess, visits: trimVisits([lastAccess], visitLogSize) };
+	}
+	applyAging(entries, maxAge);
+	return entries;
+}
@@ -1,28 +1,70 @@
 import { App, PluginSettingTab, Setting } from "obsidian";
 import ZoxidianPlugin from "./main";
-import { applyAging } from "./frecency";
+import { DEFAULT_SCORING, FIREFOX_SAMPLE_SIZE, STRATEGY_LABELS } from "./frecency";
+import type { ScoringOptions, ScoringStrategy } from "./types";
 import { appendFileIcon } from "./utils";
-
-export interface ZoxidianSettings {
+import { renderBucketEditor } from "./bucket-editor";
+import type { QueryMode } from "./query";
+import { SeedPreviewModal } from "./seed-modal";
+import { DEFAULT_VISIT_LOG_SIZE } from "./visits";
+import type { ShardMergeMode } from "./shards";
+import type { ExclusionRule } from "./rules";
+import { DEFAULT_PROFILE_ID, defaultProfiles, ProfileMeta } from "./profiles";
+import { ProfileNameModal } from "./profile-modal";
+import { renderRuleEditor } from "./rule-editor";
+
+export interface ZoxidianSettings extends ScoringOptions {
 	maxItems: number;
-	excludePaths: string;
+	exclusionRules: ExclusionRule[];
 	openInNewTab: boolean;
 	showFrecencyBadge: boolean;
 	showScoreBadge: boolean;
 	maxAge: number;
 	recordOnEveryVisit: boolean;
 	includeUntrackedInModal: boolean;
+	visitLogSize: number;
+	queryMode: QueryMode;
+	matchBalance: number;
+	minDwellSeconds: number;
+	dwellBonusPerMinute: number;
+	idleTimeoutSeconds: number;
+	trackEdits: boolean;
+	editWeight: number;
+	/** Also rank the headings and blocks visited inside notes. */
+	trackSections: boolean;
+	/** When the one-time seed was applied (ms), or 0 if never. */
+	seededAt: number;
+	/** Store visits in one shard file per device instead of data.json. */
+	syncShards: boolean;
+	shardMergeMode: ShardMergeMode;
+	profiles: Record<string, ProfileMeta>;
+	activeProfile: string;
 }
 
 export const DEFAULT_SETTINGS: ZoxidianSettings = {
 	maxItems: 50,
-	excludePaths: "",
+	exclusionRules: [],
 	openInNewTab: false,
 	showFrecencyBadge: true,
 	showScoreBadge: true,
 	maxAge: 9000,
 	recordOnEveryVisit: false,
 	includeUntrackedInModal: true,
+	visitLogSize: DEFAULT_VISIT_LOG_SIZE,
+	queryMode: "fuzzy",
+	matchBalance: 0.6,
+	minDwellSeconds: 0,
+	dwellBonusPerMinute: 0,
+	idleTimeoutSeconds: 60,
+	trackEdits: false,
+	editWeight: 0.5,
+	trackSections: false,
+	seededAt: 0,
+	syncShards: false,
+	shardMergeMode: "sum",
+	profiles: defaultProfiles(),
+	activeProfile: DEFAULT_PROFILE_ID,
+	...DEFAULT_SCORING,
 };
 
 export class ZoxidianSettingTab extends PluginSettingTab {
@@ -66,25 +108,71 @@ export class ZoxidianSettingTab extends PluginSettingTab {
 			);
 
 		new Setting(containerEl)
-			.setName("Exclude paths (regex)")
+			.setName("Scoring strategy")
+			.setDesc("How the base score and visit recency combine into the frecency ranking.")
+			.addDropdown((dropdown) => {
+				for (const [value, label] of Object.entries(STRATEGY_LABELS)) {
+					dropdown.addOption(value, label);
+				}
+				dropdown
+					.setValue(this.plugin.settings.scoringStrategy)
+					.onChange(async (value) => {
+						this.plugin.settings.scoringStrategy = value as ScoringStrategy;
+						await this.plugin.persistData();
+						this.plugin.redrawViews();
+						this.display();
+					});
+			});
+
+		if (this.plugin.settings.scoringStrategy === "decay") {
+			new Setting(containerEl)
+				.setName("Half-life (hours)")
+				.setDesc("Time after which a note's recency weight halves.")
+				.addText((text) =>
+					text
+						.setPlaceholder(String(DEFAULT_SCORING.halfLifeHours))
+						.setValue(String(this.plugin.settings.halfLifeHours))
+						.onChange(async (value) => {
+							const num = parseFloat(value);
+							if (!isNaN(num) && num > 0) {
+								this.plugin.settings.halfLifeHours = num;
+								await this.plugin.persistData();
+								this.plugin.redrawViews();
+							}
+						})
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Time-of-day boost")
 			.setDesc(
-				"Notes whose path matches this regex are excluded. Example: ^daily/"
+				"Raise notes you usually open around this time of day or on this weekday, " +
+				"based on their recent visits, and list them under \"Likely next\" in the panel. 0 turns it off."
 			)
-			.addText((text) =>
-				text
-					.setPlaceholder("^daily/")
-					.setValue(this.plugin.settings.excludePaths)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 2, 0.1)
+					.setValue(this.plugin.settings.contextStrength)
+					.setDynamicTooltip()
 					.onChange(async (value) => {
-						this.plugin.settings.excludePaths = value;
+						this.plugin.settings.contextStrength = value;
 						await this.plugin.persistData();
 						this.plugin.redrawViews();
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Exclusion rules")
+			.setDesc(
+				"Keep notes out of tracking, out of the panel and search, or both. " +
+				"Later rules override earlier ones, so an include rule can carve exceptions out of an exclude rule."
+			);
+		renderRuleEditor(containerEl, this.plugin);
+
 		new Setting(containerEl)
 			.setName("Open in new tab by default")
 			.setDesc(
-				"When enabled, clicking a note opens it in a new tab. You can always Ctrl/Cmd+click to toggle."
+				"When enabled, clicking a note opens it in a new tab. You can always middle-click or press Ctrl/Cmd+Enter to toggle."
 			)
 			.addToggle((toggle) =>
 				toggle
@@ -111,6 +199,106 @@ export class ZoxidianSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Minimum dwell time (seconds)")
+			.setDesc(
+				"A visit only counts after the note has been active this long. " +
+				"Time with the window unfocused or idle does not count. 0 counts visits immediately."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.minDwellSeconds))
+					.onChange(async (value) => {
+						const num = parseFloat(value);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.minDwellSeconds = num;
+							await this.plugin.persistData();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Dwell bonus per minute")
+			.setDesc(
+				"Extra score added per minute of active time spent in a note, when you leave it. " +
+				"A single visit earns at most 5. 0 disables the bonus."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.dwellBonusPerMinute))
+					.onChange(async (value) => {
+						const num = parseFloat(value);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.dwellBonusPerMinute = num;
+							await this.plugin.persistData();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Idle timeout (seconds)")
+			.setDesc("Without keyboard or mouse activity for this long, dwell time stops accruing.")
+			.addText((text) =>
+				text
+					.setPlaceholder("60")
+					.setValue(String(this.plugin.settings.idleTimeoutSeconds))
+					.onChange(async (value) => {
+						const num = parseFloat(value);
+						if (!isNaN(num) && num > 0) {
+							this.plugin.settings.idleTimeoutSeconds = num;
+							await this.plugin.persistData();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Count edits")
+			.setDesc(
+				"Typing in a tracked note adds to its score, separately from opens; changes from sync " +
+				"or other plugins do not count. Continuous editing counts once until the note has been left alone for 5 minutes."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.trackEdits)
+					.onChange(async (value) => {
+						this.plugin.settings.trackEdits = value;
+						await this.plugin.persistData();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Edit weight")
+			.setDesc("Score added per editing session. An open adds 1.")
+			.addText((text) =>
+				text
+					.setPlaceholder("0.5")
+					.setValue(String(this.plugin.settings.editWeight))
+					.onChange(async (value) => {
+						const num = parseFloat(value);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.editWeight = num;
+							await this.plugin.persistData();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Track headings and blocks")
+			.setDesc(
+				"Also count visits to the heading or block in view (or the one a link pointed to), " +
+				"so the search modal can jump straight to the sections you return to."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.trackSections)
+					.onChange(async (value) => {
+						this.plugin.settings.trackSections = value;
+						await this.plugin.persistData();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Include untracked files in search modal")
 			.setDesc(
@@ -126,6 +314,42 @@ export class ZoxidianSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Search ranking balance")
+			.setDesc(
+				"How search results are ordered while typing a fuzzy query. " +
+				"Left: by frecency only. Right: by how well the query matches, with a bonus for matching the note name. " +
+				"Untracked notes with a strong match can outrank weak matches on tracked notes."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 1, 0.05)
+					.setValue(this.plugin.settings.matchBalance)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.matchBalance = value;
+						await this.plugin.persistData();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Default query mode")
+			.setDesc(
+				"Fuzzy: matches characters anywhere in the path. " +
+				"Zoxide: space-separated keywords must appear in order and the last one must match the note name; " +
+				"end the query with / to search folders. Press Tab in the search modal to switch."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("fuzzy", "Fuzzy")
+					.addOption("zoxide", "Zoxide")
+					.setValue(this.plugin.settings.queryMode)
+					.onChange(async (value) => {
+						this.plugin.settings.queryMode = value as QueryMode;
+						await this.plugin.persistData();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Show frecency badge")
 			.setDesc("Display the frecency score badge (accent colour) next to each note.")
@@ -204,7 +428,7 @@ export class ZoxidianSettingTab extends PluginSettingTab {
 
 		let pendingMaxAge: number | null = null;
 		let applyBtnEl: HTMLButtonElement | null = null;
-		let showWarning: (num: number, total: number) => void = () => {};
+		let showWarning: (num: number, pruneCount: number) => void = () => {};
 		let hideWarning: () => void = () => {};
 
 		new Setting(containerEl)
@@ -221,15 +445,15 @@ export class ZoxidianSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						const num = parseInt(value, 10);
 						if (!isNaN(num) && num > 0) {
-							const total = this.plugin.getTotalScore();
-							if (num < total) {
+							const preview = this.plugin.previewMaxAge(num);
+							if (preview.scaled) {
 								pendingMaxAge = num;
-								showWarning(num, total);
+								showWarning(num, preview.pruned);
 							} else {
 								pendingMaxAge = null;
 								hideWarning();
 								this.plugin.settings.maxAge = num;
-								applyAging(this.plugin.files, num);
+								this.plugin.ageAllProfiles();
 								await this.plugin.persistData();
 								this.plugin.redrawViews();
 								updateStats();
@@ -247,7 +471,7 @@ export class ZoxidianSettingTab extends PluginSettingTab {
 				btn.onClick(async () => {
 					if (pendingMaxAge === null) return;
 					this.plugin.settings.maxAge = pendingMaxAge;
-					applyAging(this.plugin.files, pendingMaxAge);
+					this.plugin.ageAllProfiles();
 					await this.plugin.persistData();
 					this.plugin.redrawViews();
 					updateStats();
@@ -259,13 +483,10 @@ export class ZoxidianSettingTab extends PluginSettingTab {
 		const maxAgeWarningEl = containerEl.createEl("p", { cls: "zoxidian-maxage-warning" });
 		maxAgeWarningEl.addClass("zoxidian-hidden");
 
-			showWarning = (num: number, total: number) => {
-				const scale = (num * 0.9) / total;
-				const pruneCount = Object.values(this.plugin.files)
-					.filter(e => e.score * scale < 1).length;
+		showWarning = (num: number, pruneCount: number) => {
 			maxAgeWarningEl.setText(
-				`Reducing to ${num} will prune ${pruneCount} note(s) ` +
-				`(current total: ${total.toFixed(1)}).`
+				`Reducing to ${num} will scale down scores and prune ${pruneCount} note(s) ` +
+				"in the profiles without their own max age."
 			);
 			maxAgeWarningEl.removeClass("zoxidian-hidden");
 			if (applyBtnEl) applyBtnEl.removeClass("zoxidian-hidden");
@@ -276,14 +497,37 @@ export class ZoxidianSettingTab extends PluginSettingTab {
 			if (applyBtnEl) applyBtnEl.addClass("zoxidian-hidden");
 		};
 
+		new Setting(containerEl)
+			.setName("Visit history size")
+			.setDesc(
+				"How many recent visit timestamps are kept per note. " +
+				"Used by the Firefox-style strategy and other recency-aware features. " +
+				"Lowering it trims existing histories."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_VISIT_LOG_SIZE))
+					.setValue(String(this.plugin.settings.visitLogSize))
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.visitLogSize = num;
+							this.plugin.ageAllProfiles({ visitLogSize: num });
+							await this.plugin.persistData();
+							this.plugin.redrawViews();
+						}
+					})
+			);
+
 		// Stats
 		const statsEl = containerEl.createEl("div", { cls: "zoxidian-stats" });
 
 		updateStats = () => {
 			statsEl.empty();
-			const total = this.plugin.getTotalScore();
-			const count = Object.keys(this.plugin.files).length;
-			const pct   = Math.min(100, (total / this.plugin.settings.maxAge) * 100);
+			const total  = this.plugin.getTotalScore();
+			const count  = Object.keys(this.plugin.files).length;
+			const maxAge = this.plugin.getEffectiveSettings().maxAge;
+			const pct    = Math.min(100, (total / maxAge) * 100);
 
 			const grid = statsEl.createEl("div", { cls: "zoxidian-stats-grid" });
 
@@ -294,7 +538,7 @@ export class ZoxidianSettingTab extends PluginSettingTab {
 			};
 
 			addStat("Tracked notes", String(count));
-			addStat("Total score", `${total.toFixed(1)} / ${this.plugin.settings.maxAge}`);
+			addStat("Total score", `${total.toFixed(1)} / ${maxAge}`);
 			addStat("Age pool used", `${pct.toFixed(1)}%`);
 
 			// Progress bar
@@ -309,7 +553,8 @@ export class ZoxidianSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl).setName("How it works").setHeading();
 
-		const algoEl = containerEl.createEl("div", { cls: "zoxidian-algo" });
+		const algoEl   = containerEl.createEl("div", { cls: "zoxidian-algo" });
+		const strategy = this.plugin.getEffectiveSettings().scoringStrategy;
 
 		const steps: Array<[string, string]> = [
 			[
@@ -318,9 +563,8 @@ export class ZoxidianSettingTab extends PluginSettingTab {
 				"A note opened 20 times has a base score of 20.",
 			],
 			[
-				"2 · Frecency",
-				"When notes are ranked for display, the base score is multiplied by a recency factor " +
-				"so freshly-visited notes surface even if they have a low total count:",
+				`2 · Frecency (${STRATEGY_LABELS[strategy]})`,
+				this.describeStrategy(),
 			],
 			[
 				"3 · Aging",
@@ -337,31 +581,82 @@ export class ZoxidianSettingTab extends PluginSettingTab {
 			block.createEl("p", { cls: "zoxidian-algo-body",    text: body });
 		}
 
-		// Frecency table (inline in step 2's block)
+		// Strategy table (inline in step 2's block) — editable for zoxide
 		const tableBlock = algoEl.children[1] as HTMLElement;
-		const table = tableBlock.createEl("table", { cls: "zoxidian-algo-table" });
-		const thead = table.createEl("thead");
-		const hrow  = thead.createEl("tr");
-		hrow.createEl("th", { text: "Last opened" });
-		hrow.createEl("th", { text: "Multiplier" });
-
-		const rows: Array<[string, string]> = [
-			["Within the last hour", "× 4"],
-			["Within the last day",  "× 2"],
-			["Within the last week", "÷ 2"],
-			["Longer ago",           "÷ 4"],
-		];
-		const tbody = table.createEl("tbody");
-		for (const [when, mult] of rows) {
-			const tr = tbody.createEl("tr");
-			tr.createEl("td", { text: when });
-			tr.createEl("td", { cls: "zoxidian-algo-mult", text: mult });
+		const tableRows  = this.getStrategyTable();
+		if (strategy === "zoxide") {
+			renderBucketEditor(tableBlock, this.plugin);
+		} else if (tableRows) {
+			const table = tableBlock.createEl("table", { cls: "zoxidian-algo-table" });
+			const thead = table.createEl("thead");
+			const hrow  = thead.createEl("tr");
+			for (const heading of tableRows.headings) {
+				hrow.createEl("th", { text: heading });
+			}
+
+			const tbody = table.createEl("tbody");
+			for (const [when, mult] of tableRows.rows) {
+				const tr = tbody.createEl("tr");
+				tr.createEl("td", { text: when });
+				tr.createEl("td", { cls: "zoxidian-algo-mult", text: mult });
+			}
 		}
 
+		// ---- Profiles ----
+
+		new Setting(containerEl).setName("Profiles").setHeading();
+		this.displayProfiles(containerEl);
+
 		// ---- Data management ----
 
 		new Setting(containerEl).setName("Data management").setHeading();
 
+		const seededAt = this.plugin.settings.seededAt;
+		new Setting(containerEl)
+			.setName("Seed database")
+			.setDesc(seededAt > 0
+				? `Already seeded on ${new Date(seededAt).toLocaleDateString()}. Clear all data to seed again.`
+				: "Give recently opened and recently modified notes starting scores. " +
+				  "You can review the notes before anything is imported.")
+			.addButton((btn) =>
+				btn
+					.setButtonText("Preview")
+					.setDisabled(seededAt > 0)
+					.onClick(() => {
+						new SeedPreviewModal(this.app, this.plugin, this.plugin.buildSeed(), () => this.display()).open();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Sync-safe storage")
+			.setDesc("Keep each device's visits in its own file under the plugin's shards folder, " +
+				"so syncing several devices never overwrites visits. Rankings merge all devices.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.syncShards)
+					.onChange(async (value) => {
+						await this.plugin.setSyncShards(value);
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.syncShards) {
+			new Setting(containerEl)
+				.setName("Combine devices by")
+				.setDesc("How scores for the same note on different devices are combined.")
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("sum", "Adding scores")
+						.addOption("max", "Taking the highest score")
+						.setValue(this.plugin.settings.shardMergeMode)
+						.onChange(async (value) => {
+							this.plugin.settings.shardMergeMode = value as ShardMergeMode;
+							await this.plugin.persistData();
+							this.plugin.redrawViews();
+						})
+				);
+		}
+
 		new Setting(containerEl)
 			.setName("Clear all data")
 			.setDesc("Remove all tracked visit data. This cannot be undone.")
@@ -372,8 +667,126 @@ export class ZoxidianSettingTab extends PluginSettingTab {
 					.onClick(() => {
 						this.plugin.clearData();
 						this.plugin.redrawViews();
-						updateStats();
+						this.display();
 					})
 			);
 	}
+
+	private displayProfiles(containerEl: HTMLElement): void {
+		const { profiles, activeProfile } = this.plugin.settings;
+
+		for (const [id, profile] of Object.entries(profiles)) {
+			const active = id === activeProfile;
+			const count  = Object.keys(this.plugin.getMergedData(id).files).length;
+			new Setting(containerEl)
+				.setName(active ? `${profile.name} (active)` : profile.name)
+				.setDesc(`${count} tracked note(s). Opening a note in one of these folders switches to this profile.`)
+				.addText((text) =>
+					text
+						.setPlaceholder("Projects/work, clients")
+						.setValue(profile.autoActivate.join(", "))
+						.onChange(async (value) => {
+							profile.autoActivate = value.split(",").map(f => f.trim()).filter(f => f !== "");
+							await this.plugin.persistData();
+						})
+				)
+				.addButton((btn) =>
+					btn
+						.setButtonText("Activate")
+						.setDisabled(active)
+						.onClick(() => {
+							this.plugin.switchProfile(id);
+							this.display();
+						})
+				);
+		}
+
+		const overrides = profiles[activeProfile]?.overrides;
+		if (overrides) {
+			const saveOverrides = async () => {
+				await this.plugin.persistData();
+				this.plugin.redrawViews();
+			};
+
+			new Setting(containerEl)
+				.setName("Scoring strategy for the active profile")
+				.addDropdown((dropdown) => {
+					dropdown.addOption("", "Same as above");
+					for (const [value, label] of Object.entries(STRATEGY_LABELS)) dropdown.addOption(value, label);
+					dropdown
+						.setValue(overrides.scoringStrategy ?? "")
+						.onChange(async (value) => {
+							if (value) overrides.scoringStrategy = value as ScoringStrategy;
+							else delete overrides.scoringStrategy;
+							await saveOverrides();
+							this.display();
+						});
+				});
+
+			for (const [key, name] of [["maxItems", "Max items"], ["maxAge", "Max age"]] as const) {
+				new Setting(containerEl)
+					.setName(`${name} for the active profile`)
+					.setDesc("Leave empty to use the global value.")
+					.addText((text) =>
+						text
+							.setPlaceholder(String(this.plugin.settings[key]))
+							.setValue(overrides[key] !== undefined ? String(overrides[key]) : "")
+							.onChange(async (value) => {
+								const num = parseInt(value, 10);
+								if (!isNaN(num) && num > 0) overrides[key] = num;
+								else delete overrides[key];
+								await saveOverrides();
+							})
+					);
+			}
+		}
+
+		new Setting(containerEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("New profile")
+					.onClick(() => {
+						new ProfileNameModal(this.app, "Create profile", "", (name) => {
+							this.plugin.createProfile(name);
+							this.display();
+						}).open();
+					})
+			);
+	}
+
+	private describeStrategy(): string {
+		const settings = this.plugin.getEffectiveSettings();
+		switch (settings.scoringStrategy) {
+			case "decay":
+				return "When notes are ranked for display, the base score is multiplied by 4 and then halved " +
+					`for every ${settings.halfLifeHours} hour(s) since the last visit. ` +
+					"Recency fades smoothly instead of dropping at fixed thresholds.";
+			case "firefox":
+				return `When notes are ranked for display, up to ${FIREFOX_SAMPLE_SIZE} recent visits are sampled. ` +
+					"Each visit is weighted by its age, and the base score is multiplied by the average weight " +
+					"(divided by 25, so a fresh visit counts × 4):";
+			default:
+				return "When notes are ranked for display, the base score is multiplied by a recency factor " +
+					"so freshly-visited notes surface even if they have a low total count. " +
+					"The first row whose threshold is larger than the time since the last visit applies:";
+		}
+	}
+
+	private getStrategyTable(): { headings: [string, string]; rows: Array<[string, string]> } | null {
+		switch (this.plugin.getEffectiveSettings().scoringStrategy) {
+			case "firefox":
+				return {
+					headings: ["Visit age", "Weight"],
+					rows: [
+						["Within 4 days",  "100"],
+						["Within 14 days", "70"],
+						["Within 31 days", "50"],
+						["Within 90 days", "30"],
+						["Older",          "10"],
+					],
+				};
+			default:
+				return null;
+		}
+	}
 }
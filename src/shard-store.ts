@@ -0,0 +1,87 @@
+import { DataAdapter, normalizePath } from "obsidian";
+import { normalizeShard, Shard } from "./shards";
+
+// ---------------------------------------------------------------------------
+// Shard files live next to data.json in the plugin folder:
+//
+//   <plugin dir>/shards/<device id>.json
+//
+// The store only reads and writes them; merging is done in shards.ts.
+//
+// A shard that does not parse is left out of the merge and listed in
+// `unreadable`. This device's own shard is never written over while it is
+// unreadable: the next write first moves it aside to
+// `<device id>.json.unreadable-<time>`, so its visits can still be recovered.
+// ---------------------------------------------------------------------------
+
+export class ShardStore {
+	private readonly dir: string;
+	// Last seen modification time per shard file, to detect external changes.
+	private mtimes = new Map<string, number>();
+	/** Shard files that failed to parse at the last read. */
+	unreadable: string[] = [];
+
+	constructor(private adapter: DataAdapter, pluginDir: string, readonly deviceId: string) {
+		this.dir = normalizePath(`${pluginDir}/shards`);
+	}
+
+	private pathFor(deviceId: string): string {
+		return normalizePath(`${this.dir}/${deviceId}.json`);
+	}
+
+	/** Read every shard. The local shard is returned separately (empty if it does not exist yet). */
+	async readAll(visitLogSize: number): Promise<{ local: Shard | null; remote: Shard[] }> {
+		if (!(await this.adapter.exists(this.dir))) return { local: null, remote: [] };
+
+		const listed = await this.adapter.list(this.dir);
+		let local: Shard | null = null;
+		const remote: Shard[] = [];
+		const mtimes = new Map<string, number>();
+		const unreadable: string[] = [];
+
+		for (const path of listed.files.filter(p => p.endsWith(".json"))) {
+			const deviceId = path.slice(path.lastIndexOf("/") + 1, -".json".length);
+			// Unreadable shards are tracked too, so they are only read again once they change.
+			mtimes.set(path, (await this.adapter.stat(path))?.mtime ?? 0);
+			try {
+				const shard = normalizeShard(JSON.parse(await this.adapter.read(path)), deviceId, visitLogSize);
+				if (deviceId === this.deviceId) local = shard;
+				else remote.push(shard);
+			} catch (err) {
+				// A half-synced or hand-edited shard must not take the others down.
+				console.error(`[Zoxidian] Skipping unreadable shard "${path}":`, err);
+				unreadable.push(path);
+			}
+		}
+
+		this.mtimes     = mtimes;
+		this.unreadable = unreadable;
+		return { local, remote };
+	}
+
+	async writeLocal(shard: Shard): Promise<void> {
+		if (!(await this.adapter.exists(this.dir))) await this.adapter.mkdir(this.dir);
+		const path = this.pathFor(this.deviceId);
+		if (this.unreadable.includes(path)) {
+			if (await this.adapter.exists(path)) await this.adapter.rename(path, `${path}.unreadable-${Date.now()}`);
+			this.unreadable = this.unreadable.filter(p => p !== path);
+		}
+		await this.adapter.write(path, JSON.stringify(shard));
+		this.mtimes.set(path, (await this.adapter.stat(path))?.mtime ?? Date.now());
+	}
+
+	/** True when a shard from another device was added, removed or modified since the last read. */
+	async hasRemoteChanges(): Promise<boolean> {
+		if (!(await this.adapter.exists(this.dir))) return false;
+		const own   = this.pathFor(this.deviceId);
+		const files = (await this.adapter.list(this.dir)).files.filter(p => p.endsWith(".json") && p !== own);
+
+		const known = [...this.mtimes.keys()].filter(p => p !== own);
+		if (files.length !== known.length) return true;
+		for (const path of files) {
+			const mtime = (await this.adapter.stat(path))?.mtime ?? 0;
+			if (this.mtimes.get(path) !== mtime) return true;
+		}
+		return false;
+	}
+}
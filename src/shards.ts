@@ -0,0 +1,284 @@
+import { DAY } from "./frecency";
+import { parentFolders } from "./folders";
+import type { FileEntry } from "./types";
+import { mergeEntries, normalizeFiles, trimVisits } from "./visits";
+import { DEFAULT_PROFILE_ID, normalizeProfileData, ProfileData } from "./profiles";
+import { normalizeTransitions, Transitions } from "./transitions";
+
+// ---------------------------------------------------------------------------
+// Per-device shards — with sync-safe storage enabled, every device writes
+// only its own shard file, so Obsidian Sync or git never has two devices
+// overwriting one another's visits. The ranking works on a merged view of
+// all shards that is the same on every device, whatever order the shards
+// are read in:
+//
+//   - Entries for the same path combine by summing or taking the max of
+//     their scores (setting), keeping the latest access and interleaving
+//     the visit logs.
+//   - Renames and deletes leave a tombstone. An entry on any shard that is
+//     older than a tombstone for its path (or an ancestor folder) is moved
+//     along the rename, or dropped for a delete.
+//   - "Clear all data" records a reset time; older entries on every shard
+//     are ignored.
+//
+// Profiles share the tombstones and reset time, since renames, deletes and
+// clearing apply to every profile; mergeShards works on one profile at a
+// time through shardProfile().
+//
+// Co-visitation counts (transitions) are per device too and add up across
+// shards (mergeTransitions). Pinned notes are not: they are an ordered list
+// the user arranges by hand and expects to be the same on every device, so
+// they stay in data.json with the settings, where the last save wins.
+//
+// Shards stay bounded: entries are aged like the regular database and
+// tombstones expire after TOMBSTONE_TTL_MS (and are capped in number).
+// ---------------------------------------------------------------------------
+
+export type ShardMergeMode = "sum" | "max";
+
+export interface Tombstone {
+	/** When the rename or delete happened (ms). */
+	at: number;
+	/** New path for a rename; absent for a delete. */
+	to?: string;
+	/** True when the tombstone covers a whole folder. */
+	folder?: boolean;
+}
+
+export interface Shard {
+	deviceId: string;
+	updatedAt: number;
+	/** Entries whose last access predates this are ignored on every shard. */
+	resetAt: number;
+	files: Record<string, FileEntry>;
+	folders: Record<string, FileEntry>;
+	sections: Record<string, FileEntry>;
+	/** Visit maps of the non-default profiles; `files`/`folders`/`sections` are the default profile's. */
+	profileData: Record<string, ProfileData>;
+	/** This device's co-visitation counts, shared by every profile. */
+	transitions: Transitions;
+	tombstones: Record<string, Tombstone>;
+}
+
+export const TOMBSTONE_TTL_MS = 30 * DAY;
+export const MAX_TOMBSTONES   = 1000;
+/** Guards against rename cycles (a → b → a) when following tombstones. */
+const MAX_RENAME_HOPS = 16;
+
+export function emptyShard(deviceId: string): Shard {
+	return {
+		deviceId, updatedAt: 0, resetAt: 0, files: {}, folders: {}, sections: {}, profileData: {}, transitions: {}, tombstones: {},
+	};
+}
+
+/** The shard as seen by one profile: its `files`/`folders`/`sections` are that profile's maps. */
+export function shardProfile(shard: Shard, profileId: string): Shard {
+	if (profileId === DEFAULT_PROFILE_ID) return shard;
+	const data = shard.profileData[profileId];
+	return { ...shard, files: data?.files ?? {}, folders: data?.folders ?? {}, sections: data?.sections ?? {} };
+}
+
+/** Validate a shard read from disk; malformed parts are dropped rather than trusted. */
+export function normalizeShard(raw: unknown, deviceId: string, visitLogSize: number): Shard {
+	const shard = emptyShard(deviceId);
+	if (typeof raw !== "object" || raw === null) return shard;
+	const data = raw as Partial<Shard>;
+
+	if (typeof data.deviceId === "string") shard.deviceId = data.deviceId;
+	if (typeof data.updatedAt === "number") shard.updatedAt = data.updatedAt;
+	if (typeof data.resetAt === "number") shard.resetAt = data.resetAt;
+	shard.files   = normalizeFiles(data.files, visitLogSize);
+	shard.folders = normalizeFiles(data.folders, visitLogSize);
+	shard.sections = normalizeFiles(data.sections, visitLogSize);
+	shard.profileData = normalizeProfileData(data.profileData, visitLogSize);
+	shard.transitions = normalizeTransitions(data.transitions);
+
+	if (typeof data.tombstones === "object" && data.tombstones !== null) {
+		for (const [path, t] of Object.entries(data.tombstones)) {
+			if (typeof t?.at !== "number") continue;
+			shard.tombstones[path] = {
+				at: t.at,
+				...(typeof t.to === "string" ? { to: t.to } : {}),
+				...(t.folder ? { folder: true } : {}),
+			};
+		}
+	}
+	return shard;
+}
+
+/** Keep the newest tombstone per path across all shards. */
+function collectTombstones(shards: readonly Shard[]): Map<string, Tombstone> {
+	const all = new Map<string, Tombstone>();
+	for (const shard of shards) {
+		for (const [path, t] of Object.entries(shard.tombstones)) {
+			const current = all.get(path);
+			// Ties break on the target so every device picks the same one.
+			if (!current || t.at > current.at || (t.at === current.at && (t.to ?? "") > (current.to ?? ""))) {
+				all.set(path, t);
+			}
+		}
+	}
+	return all;
+}
+
+/**
+ * Where an entry last accessed at `lastAccess` under `path` belongs after
+ * applying tombstones, or null if it was deleted.
+ */
+export function resolvePath(path: string, lastAccess: number, tombstones: Map<string, Tombstone>): string | null {
+	let current = path;
+	for (let hop = 0; hop < MAX_RENAME_HOPS; hop++) {
+		const exact = tombstones.get(current);
+		if (exact && !exact.folder && exact.at >= lastAccess) {
+			if (exact.to === undefined) return null;
+			current = exact.to;
+			continue;
+		}
+
+		// Innermost folder tombstone wins.
+		const folder = [...parentFolders(current), current].reverse().find(f => {
+			const t = tombstones.get(f);
+			return t?.folder && t.at >= lastAccess;
+		});
+		if (folder === undefined) return current;
+
+		const t = tombstones.get(folder) as Tombstone;
+		if (t.to === undefined) return null;
+		current = t.to + current.slice(folder.length);
+	}
+	return current;
+}
+
+/** resolvePath for a section key: the note part follows the note's tombstones. */
+function resolveSectionPath(key: string, lastAccess: number, tombstones: Map<string, Tombstone>): string | null {
+	const hash = key.indexOf("#");
+	if (hash === -1) return resolvePath(key, lastAccess, tombstones);
+	const path = resolvePath(key.slice(0, hash), lastAccess, tombstones);
+	return path === null ? null : path + key.slice(hash);
+}
+
+function combine(a: FileEntry, b: FileEntry, mode: ShardMergeMode, cap: number): FileEntry {
+	const merged = mergeEntries(a, b, cap);
+	if (mode === "max") merged.score = Math.max(a.score, b.score);
+	return merged;
+}
+
+function mergeMaps(
+	maps: ReadonlyArray<{ map: Record<string, FileEntry>; resetAt: number }>,
+	tombstones: Map<string, Tombstone>,
+	mode: ShardMergeMode,
+	cap: number,
+	resolve = resolvePath,
+): Record<string, FileEntry> {
+	const resetAt = Math.max(0, ...maps.map(m => m.resetAt));
+	const merged: Record<string, FileEntry> = {};
+
+	for (const { map } of maps) {
+		for (const [path, entry] of Object.entries(map)) {
+			if (entry.lastAccess < resetAt) continue;
+			const target = resolve(path, entry.lastAccess, tombstones);
+			if (target === null) continue;
+
+			const existing = merged[target];
+			merged[target] = existing
+				? combine(existing, entry, mode, cap)
+				: { ...entry, visits: trimVisits([...entry.visits], cap) };
+		}
+	}
+	return merged;
+}
+
+/**
+ * Merge shards into a single view. Shards are sorted by device id first so
+ * the result does not depend on the order they were read in.
+ */
+export function mergeShards(
+	shards: readonly Shard[],
+	mode: ShardMergeMode,
+	cap: number,
+): ProfileData {
+	const ordered    = [...shards].sort((a, b) => a.deviceId.localeCompare(b.deviceId));
+	const tombstones = collectTombstones(ordered);
+	return {
+		files:   mergeMaps(ordered.map(s => ({ map: s.files,   resetAt: s.resetAt })), tombstones, mode, cap),
+		folders: mergeMaps(ordered.map(s => ({ map: s.folders, resetAt: s.resetAt })), tombstones, mode, cap),
+		sections: mergeMaps(
+			ordered.map(s => ({ map: s.sections, resetAt: s.resetAt })), tombstones, mode, cap, resolveSectionPath,
+		),
+	};
+}
+
+/**
+ * Apply one local change to a note's merged entry without merging every
+ * shard again: `before` and `after` are the local entry around the change,
+ * which only ever adds score, visits and counts.
+ */
+export function patchMergedEntry(
+	merged: FileEntry | undefined,
+	before: FileEntry | undefined,
+	after: FileEntry,
+	mode: ShardMergeMode,
+	cap: number,
+): FileEntry {
+	if (!merged) return { ...after, visits: trimVisits([...after.visits], cap) };
+	if (!before) return combine(merged, after, mode, cap);
+
+	// Visits in `after` beyond those already in `before`; equal timestamps count separately.
+	const seen = new Map<number, number>();
+	for (const v of before.visits) seen.set(v, (seen.get(v) ?? 0) + 1);
+	const added = after.visits.filter(v => {
+		const count = seen.get(v) ?? 0;
+		seen.set(v, count - 1);
+		return count <= 0;
+	});
+	const patched: FileEntry = {
+		...merged,
+		score: mode === "max"
+			? Math.max(merged.score, after.score)
+			: merged.score + after.score - before.score,
+		lastAccess: Math.max(merged.lastAccess, after.lastAccess),
+		visits:     trimVisits([...merged.visits, ...added].sort((x, y) => x - y), cap),
+	};
+	const opens = (after.opens ?? 0) - (before.opens ?? 0);
+	const edits = (after.edits ?? 0) - (before.edits ?? 0);
+	if (opens !== 0) patched.opens = (merged.opens ?? 0) + opens;
+	if (edits !== 0) patched.edits = (merged.edits ?? 0) + edits;
+	return patched;
+}
+
+/**
+ * Add up the co-visitation counts of every shard. Counts carry no time, so
+ * every live tombstone applies to them, and a shard last written before the
+ * latest reset contributes nothing.
+ */
+export function mergeTransitions(shards: readonly Shard[]): Transitions {
+	const tombstones = collectTombstones(shards);
+	const resetAt    = Math.max(0, ...shards.map(s => s.resetAt));
+	const merged: Transitions = {};
+
+	for (const shard of shards) {
+		if (shard.updatedAt < resetAt) continue;
+		for (const [from, row] of Object.entries(shard.transitions)) {
+			const source = resolvePath(from, 0, tombstones);
+			if (source === null) continue;
+			for (const [to, count] of Object.entries(row)) {
+				const target = resolvePath(to, 0, tombstones);
+				if (target === null || target === source) continue;
+				const mergedRow = merged[source] ?? (merged[source] = {});
+				mergedRow[target] = (mergedRow[target] ?? 0) + count;
+			}
+		}
+	}
+	return merged;
+}
+
+/** Drop expired tombstones and keep at most MAX_TOMBSTONES of the newest. */
+export function pruneTombstones(tombstones: Record<string, Tombstone>, now = Date.now()): Record<string, Tombstone> {
+	const kept: Record<string, Tombstone> = {};
+	Object.entries(tombstones)
+		.filter(([, t]) => now - t.at < TOMBSTONE_TTL_MS)
+		.sort(([, a], [, b]) => b.at - a.at)
+		.slice(0, MAX_TOMBSTONES)
+		.forEach(([path, t]) => { kept[path] = t; });
+	return kept;
+}
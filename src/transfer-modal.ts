@@ -0,0 +1,123 @@
+import { App, FuzzySuggestModal, Modal, Notice, Setting, TFile } from "obsidian";
+import type ZoxidianPlugin from "./main";
+import type { FileEntry } from "./types";
+import { FORMAT_LABELS, formatForExtension, ImportMode, parseDatabase, TransferFormat } from "./transfer";
+
+/** How many errors / unknown paths the preview lists before summarising. */
+const PREVIEW_LIMIT = 20;
+
+// ---------------------------------------------------------------------------
+// Step 1 — pick a JSON, CSV or zoxide text file from the vault
+// ---------------------------------------------------------------------------
+
+export class ImportFileModal extends FuzzySuggestModal<TFile> {
+	constructor(app: App, private plugin: ZoxidianPlugin) {
+		super(app);
+		this.setPlaceholder("Choose a JSON, CSV or zoxide text file to import…");
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getFiles().filter(f => formatForExtension(f.extension) !== null);
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		const format = formatForExtension(file.extension);
+		if (!format) return;
+
+		void this.app.vault.cachedRead(file)
+			.then(text => {
+				const { entries, errors } = parseDatabase(text, format, this.plugin.settings.visitLogSize);
+				new ImportPreviewModal(this.app, this.plugin, file.path, format, entries, errors).open();
+			})
+			.catch(() => new Notice(`Could not read "${file.path}".`));
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Step 2 — preview what will be imported and choose merge or replace
+// ---------------------------------------------------------------------------
+
+export class ImportPreviewModal extends Modal {
+	constructor(
+		app: App,
+		private plugin: ZoxidianPlugin,
+		private sourcePath: string,
+		private format: TransferFormat,
+		private entries: Record<string, FileEntry>,
+		private errors: string[],
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.setTitle("Import frecency database");
+
+		const known: Record<string, FileEntry> = {};
+		const unknown: string[] = [];
+		for (const [path, entry] of Object.entries(this.entries)) {
+			if (this.app.vault.getAbstractFileByPath(path) instanceof TFile) known[path] = entry;
+			else unknown.push(path);
+		}
+		const knownCount = Object.keys(known).length;
+
+		contentEl.createEl("p", {
+			cls: "zoxidian-settings-desc",
+			text: `${this.sourcePath} (${FORMAT_LABELS[this.format]}): ` +
+				`${knownCount} note(s) ready to import.`,
+		});
+
+		this.renderList("Rejected rows", this.errors, "zoxidian-import-errors");
+		this.renderList("Not found in this vault — will be skipped", unknown, "zoxidian-import-unknown");
+
+		new Setting(contentEl)
+			.setName("Merge")
+			.setDesc("Add imported scores to existing ones, keeping the most recent access — like a rename onto an existing note.")
+			.addButton((btn) =>
+				btn
+					.setButtonText("Merge")
+					.setCta()
+					.setDisabled(knownCount === 0)
+					.onClick(() => this.finish(known, "merge"))
+			);
+
+		new Setting(contentEl)
+			.setName("Replace")
+			.setDesc("Discard the current database and use only the imported entries.")
+			.addButton((btn) =>
+				btn
+					.setButtonText("Replace")
+					.setWarning()
+					.setDisabled(knownCount === 0)
+					.onClick(() => this.finish(known, "replace"))
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderList(title: string, items: string[], cls: string): void {
+		if (items.length === 0) return;
+		const wrap = this.contentEl.createEl("div", { cls: `zoxidian-import-list ${cls}` });
+		wrap.createEl("p", { cls: "zoxidian-algo-heading", text: `${title} (${items.length})` });
+		const list = wrap.createEl("ul");
+		for (const item of items.slice(0, PREVIEW_LIMIT)) {
+			list.createEl("li", { text: item });
+		}
+		if (items.length > PREVIEW_LIMIT) {
+			list.createEl("li", { text: `…and ${items.length - PREVIEW_LIMIT} more` });
+		}
+	}
+
+	private finish(entries: Record<string, FileEntry>, mode: ImportMode): void {
+		this.plugin.importEntries(entries, mode);
+		new Notice(`Imported ${Object.keys(entries).length} note(s) (${mode}).`);
+		this.close();
+	}
+}
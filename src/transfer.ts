@@ -0,0 +1,291 @@
+import type { FileEntry } from "./types";
+import { mergeEntries, normalizeFiles, trimVisits } from "./visits";
+
+// ---------------------------------------------------------------------------
+// Import / export — the frecency database can be written to and read back
+// from three formats:
+//
+//   json    — the `files` map as stored in data.json, wrapped with a version
+//   csv     — path,score,lastAccess,opens,edits,visits (visits `;`-separated)
+//   zoxide  — `score|lastAccess|path` lines, lastAccess in epoch seconds,
+//             as read and written by zoxide's import
+//
+// Parsing never throws on bad input: every rejected row is reported with
+// its line number so the user can fix the file.
+// ---------------------------------------------------------------------------
+
+export type TransferFormat = "json" | "csv" | "zoxide";
+export type ImportMode = "merge" | "replace";
+
+export const FORMAT_EXTENSIONS: Record<TransferFormat, string> = {
+	json:   "json",
+	csv:    "csv",
+	zoxide: "txt",
+};
+
+export const FORMAT_LABELS: Record<TransferFormat, string> = {
+	json:   "JSON",
+	csv:    "CSV",
+	zoxide: "zoxide text",
+};
+
+const EXPORT_VERSION = 1;
+const CSV_HEADER = "path,score,lastAccess,opens,edits,visits";
+
+export interface ParseResult {
+	entries: Record<string, FileEntry>;
+	errors: string[];
+}
+
+export function formatForExtension(extension: string): TransferFormat | null {
+	const ext = extension.toLowerCase();
+	for (const [format, candidate] of Object.entries(FORMAT_EXTENSIONS)) {
+		if (candidate === ext) return format as TransferFormat;
+	}
+	return null;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+export function serializeDatabase(files: Record<string, FileEntry>, format: TransferFormat): string {
+	const paths = Object.keys(files).sort();
+	switch (format) {
+		case "json":
+			return JSON.stringify({ version: EXPORT_VERSION, files }, null, "\t");
+		case "csv":
+			return [CSV_HEADER, ...paths.map(path => {
+				const e = files[path];
+				return [
+					csvQuote(path),
+					e.score,
+					e.lastAccess,
+					e.opens ?? "",
+					e.edits ?? "",
+					e.visits.join(";"),
+				].join(",");
+			})].join("\n") + "\n";
+		case "zoxide":
+			return paths.map(path => {
+				const e = files[path];
+				return `${e.score}|${Math.floor(e.lastAccess / 1000)}|${path}`;
+			}).join("\n") + "\n";
+	}
+}
+
+function csvQuote(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+export function parseDatabase(text: string, format: TransferFormat, visitLogSize: number): ParseResult {
+	switch (format) {
+		case "json":   return parseJson(text, visitLogSize);
+		case "csv":    return parseCsv(text, visitLogSize);
+		case "zoxide": return parseZoxide(text, visitLogSize);
+	}
+}
+
+function parseJson(text: string, visitLogSize: number): ParseResult {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(text);
+	} catch (err) {
+		return { entries: {}, errors: [`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`] };
+	}
+
+	// Accept both the export wrapper and a bare files map (e.g. from data.json).
+	const files = typeof raw === "object" && raw !== null && "files" in raw
+		? (raw as { files: unknown }).files
+		: raw;
+	if (typeof files !== "object" || files === null || Array.isArray(files)) {
+		return { entries: {}, errors: ["Expected an object mapping note paths to entries."] };
+	}
+
+	const entries = normalizeFiles(files, visitLogSize);
+	const errors  = Object.keys(files)
+		.filter(path => !(path in entries))
+		.map(path => `"${path}": entry needs a numeric score.`);
+	return { entries, errors };
+}
+
+function parseCsv(text: string, visitLogSize: number): ParseResult {
+	const entries: Record<string, FileEntry> = {};
+	const errors: string[] = [];
+
+	for (const { line: lineNo, cells } of splitCsvRecords(text)) {
+		if (!cells) {
+			errors.push(`Line ${lineNo}: unterminated quoted field.`);
+			continue;
+		}
+		if (cells.length === 1 && !cells[0]?.trim()) continue;
+		if (lineNo === 1 && cells.length > 1 && cells[0]?.trim().toLowerCase() === "path") continue;
+
+		const [path, score, lastAccess, opens, edits, visits] = cells;
+		if (!path) {
+			errors.push(`Line ${lineNo}: missing path.`);
+			continue;
+		}
+
+		const entry = buildEntry(score, lastAccess, visitLogSize);
+		if (typeof entry === "string") {
+			errors.push(`Line ${lineNo}: ${entry}`);
+			continue;
+		}
+
+		if (visits) {
+			const log = visits.split(";").map(Number);
+			if (log.some(v => !isFinite(v))) {
+				errors.push(`Line ${lineNo}: visits must be timestamps separated by ";".`);
+				continue;
+			}
+			entry.visits = trimVisits(log.sort((a, b) => a - b), visitLogSize);
+		}
+		if (opens) entry.opens = Number(opens) || 0;
+		if (edits) entry.edits = Number(edits) || 0;
+
+		addParsed(entries, path, entry, visitLogSize);
+	}
+
+	return { entries, errors };
+}
+
+function parseZoxide(text: string, visitLogSize: number): ParseResult {
+	const entries: Record<string, FileEntry> = {};
+	const errors: string[] = [];
+
+	text.split(/\r?\n/).forEach((line, i) => {
+		const lineNo = i + 1;
+		if (!line.trim()) return;
+
+		// The path goes last so it may itself contain "|".
+		const parts = line.split("|");
+		if (parts.length < 3) {
+			errors.push(`Line ${lineNo}: expected "score|lastAccess|path".`);
+			return;
+		}
+		const [score, seconds] = parts;
+		const path = parts.slice(2).join("|").trim();
+		if (!path) {
+			errors.push(`Line ${lineNo}: missing path.`);
+			return;
+		}
+
+		const entry = buildEntry(score, seconds, visitLogSize, 1000);
+		if (typeof entry === "string") {
+			errors.push(`Line ${lineNo}: ${entry}`);
+			return;
+		}
+		addParsed(entries, path, entry, visitLogSize);
+	});
+
+	return { entries, errors };
+}
+
+/**
+ * Returns the entry, or an error message describing the bad field.
+ * `timeScale` converts the timestamp unit to milliseconds.
+ */
+function buildEntry(score: string | undefined, lastAccess: string | undefined, visitLogSize: number, timeScale = 1): FileEntry | string {
+	const s = Number(score);
+	if (score === undefined || score.trim() === "" || !isFinite(s)) return "score is not a number.";
+	if (s < 0) return "score must not be negative.";
+
+	const t = Number(lastAccess) * timeScale;
+	if (lastAccess === undefined || lastAccess.trim() === "" || !isFinite(t) || t < 0) {
+		return "last access is not a valid timestamp.";
+	}
+
+	return { score: s, lastAccess: t, visits: trimVisits(t > 0 ? [t] : [], visitLogSize) };
+}
+
+/** Duplicate rows for one path are combined the same way a rename merges entries. */
+function addParsed(entries: Record<string, FileEntry>, path: string, entry: FileEntry, visitLogSize: number): void {
+	const existing = entries[path];
+	entries[path] = existing ? mergeEntries(existing, entry, visitLogSize) : entry;
+}
+
+/**
+ * Split CSV text into records, numbered by the line each starts on. Quoted
+ * fields may span line breaks. A quote still open at the end of the text
+ * yields a record without cells, and reading resumes on its next line.
+ */
+function splitCsvRecords(text: string): Array<{ line: number; cells: string[] | null }> {
+	const records: Array<{ line: number; cells: string[] | null }> = [];
+	let pos  = 0;
+	let line = 1;
+
+	while (pos < text.length) {
+		const start     = pos;
+		const startLine = line;
+		const cells: string[] = [];
+		let cell = "";
+		let quoted = false;
+
+		for (; pos < text.length; pos++) {
+			const ch = text[pos];
+			if (quoted) {
+				if (ch === '"' && text[pos + 1] === '"') {
+					cell += '"';
+					pos++;
+				} else if (ch === '"') {
+					quoted = false;
+				} else {
+					if (ch === "\n") line++;
+					cell += ch;
+				}
+			} else if (ch === '"') {
+				quoted = true;
+			} else if (ch === ",") {
+				cells.push(cell);
+				cell = "";
+			} else if (ch === "\n") {
+				break;
+			} else if (ch !== "\r" || text[pos + 1] !== "\n") {
+				cell += ch;
+			}
+		}
+
+		if (quoted) {
+			records.push({ line: startLine, cells: null });
+			const next = text.indexOf("\n", start);
+			if (next === -1) break;
+			pos  = next + 1;
+			line = startLine + 1;
+			continue;
+		}
+		cells.push(cell);
+		records.push({ line: startLine, cells });
+		pos++;
+		line++;
+	}
+	return records;
+}
+
+// ---------------------------------------------------------------------------
+// Applying an import
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply imported entries to `files` in place. "replace" discards the current
+ * database first; "merge" combines entries for the same path exactly like
+ * `handleRename` does (scores add up, latest access wins, logs interleave).
+ */
+export function applyImport(
+	files: Record<string, FileEntry>,
+	imported: Record<string, FileEntry>,
+	mode: ImportMode,
+	visitLogSize: number,
+): void {
+	if (mode === "replace") {
+		for (const path of Object.keys(files)) delete files[path];
+	}
+	for (const [path, entry] of Object.entries(imported)) {
+		const existing = files[path];
+		files[path] = existing ? mergeEntries(existing, entry, visitLogSize) : { ...entry, visits: [...entry.visits] };
+	}
+}
@@ -0,0 +1,112 @@
+// ---------------------------------------------------------------------------
+// Co-visitation — how often one note was opened right after another. Every
+// counted visit adds 1 to the (previous note → this note) count. Counts are
+// aged like base scores (see applyAging): once their sum passes maxAge they
+// are scaled down to 90% of it and counts below 1 are dropped, so old habits
+// fade and the table stays bounded.
+// ---------------------------------------------------------------------------
+
+/** from path → to path → count */
+export type Transitions = Record<string, Record<string, number>>;
+
+export interface Successor {
+	path: string;
+	count: number;
+}
+
+function isUnder(path: string, prefix: string): boolean {
+	return path === prefix || path.startsWith(`${prefix}/`);
+}
+
+export function recordTransition(transitions: Transitions, from: string, to: string): void {
+	if (from === to) return;
+	const row = transitions[from] ?? (transitions[from] = {});
+	row[to] = (row[to] ?? 0) + 1;
+}
+
+export function ageTransitions(transitions: Transitions, maxAge: number): void {
+	if (maxAge <= 0) return;
+	let total = 0;
+	for (const row of Object.values(transitions)) {
+		for (const count of Object.values(row)) total += count;
+	}
+	if (total <= maxAge) return;
+
+	const scale = (maxAge * 0.9) / total;
+	for (const [from, row] of Object.entries(transitions)) {
+		for (const [to, count] of Object.entries(row)) {
+			if (count * scale < 1) delete row[to];
+			else row[to] = count * scale;
+		}
+		if (Object.keys(row).length === 0) delete transitions[from];
+	}
+}
+
+/** Successors of `from`, most frequent first. */
+export function getSuccessors(transitions: Transitions, from: string): Successor[] {
+	return Object.entries(transitions[from] ?? {})
+		.map(([path, count]) => ({ path, count }))
+		.sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Follow a note or folder rename on both sides of every transition. Counts
+ * that end up on the same pair are added together. Returns true when
+ * anything changed.
+ */
+export function renameInTransitions(transitions: Transitions, oldPath: string, newPath: string): boolean {
+	const move = (path: string) => (isUnder(path, oldPath) ? newPath + path.slice(oldPath.length) : path);
+	let changed = false;
+	const next: Transitions = {};
+	for (const [from, row] of Object.entries(transitions)) {
+		const source = move(from);
+		for (const [to, count] of Object.entries(row)) {
+			const target = move(to);
+			if (source !== from || target !== to) changed = true;
+			if (source === target) continue;
+			const nextRow = next[source] ?? (next[source] = {});
+			nextRow[target] = (nextRow[target] ?? 0) + count;
+		}
+	}
+	if (!changed) return false;
+	replace(transitions, next);
+	return true;
+}
+
+/** Drop every transition from or to a deleted note or folder. Returns true when anything was removed. */
+export function removeFromTransitions(transitions: Transitions, path: string): boolean {
+	let removed = false;
+	for (const [from, row] of Object.entries(transitions)) {
+		if (isUnder(from, path)) {
+			delete transitions[from];
+			removed = true;
+			continue;
+		}
+		for (const to of Object.keys(row)) {
+			if (!isUnder(to, path)) continue;
+			delete row[to];
+			removed = true;
+		}
+		if (Object.keys(row).length === 0) delete transitions[from];
+	}
+	return removed;
+}
+
+/** Keep well-formed rows from persisted data. */
+export function normalizeTransitions(raw: unknown): Transitions {
+	const transitions: Transitions = {};
+	if (typeof raw !== "object" || raw === null) return transitions;
+	for (const [from, row] of Object.entries(raw as Record<string, unknown>)) {
+		if (typeof row !== "object" || row === null) continue;
+		for (const [to, count] of Object.entries(row as Record<string, unknown>)) {
+			if (typeof count !== "number" || !(count > 0) || to === from) continue;
+			(transitions[from] ?? (transitions[from] = {}))[to] = count;
+		}
+	}
+	return transitions;
+}
+
+function replace(target: Transitions, source: Transitions): void {
+	for (const key of Object.keys(target)) delete target[key];
+	Object.assign(target, source);
+}
@@ -5,4 +5,42 @@ export interface FileEntry {
 	score: number;
 	/** Unix timestamp (ms) of the most recent visit. */
 	lastAccess: number;
+	/**
+	 * Timestamps (ms) of the most recent visits, oldest first. Bounded by the
+	 * `visitLogSize` setting — older visits fall off the front.
+	 */
+	visits: number[];
+	/** Number of counted opens. Absent on entries recorded before it was tracked. */
+	opens?: number;
+	/** Number of counted editing sessions. Absent until the note is first edited. */
+	edits?: number;
+}
+
+/**
+ * Ranking engine used to turn a base score into a frecency score.
+ *
+ * - `zoxide`   — fixed recency buckets (×4 / ×2 / ÷2 / ÷4)
+ * - `decay`    — continuous exponential decay with a configurable half-life
+ * - `firefox`  — averages bucket weights over the most recent visits
+ */
+export type ScoringStrategy = "zoxide" | "decay" | "firefox";
+
+/** One row of the zoxide recency table: visits younger than `within` get `multiplier`. */
+export interface RecencyBucket {
+	/** Upper bound (ms, exclusive) on the time since the last visit. */
+	within: number;
+	multiplier: number;
+}
+
+/** The subset of settings that influences frecency ranking. */
+export interface ScoringOptions {
+	scoringStrategy: ScoringStrategy;
+	/** Half-life (hours) for the `decay` strategy. */
+	halfLifeHours: number;
+	/** Recency table for the `zoxide` strategy, thresholds ascending. */
+	recencyBuckets: RecencyBucket[];
+	/** Multiplier for visits older than every bucket. */
+	olderMultiplier: number;
+	/** Strength of the time-of-day / weekday boost; 0 turns it off. */
+	contextStrength: number;
 }
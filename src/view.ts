@@ -1,11 +1,66 @@
-import { ItemView, Menu, TFile, WorkspaceLeaf } from "obsidian";
+import { ItemView, Menu, Notice, TFile, ViewStateResult, WorkspaceLeaf, prepareFuzzySearch, renderMatches } from "obsidian";
 import { VIEW_TYPE_ZOXIDIAN } from "./types";
 import { formatScore, appendFileIcon } from "./utils";
 import type ZoxidianPlugin from "./main";
+import type { SearchMatches } from "obsidian";
+import type { FileEntry } from "./types";
+import { ProfileSwitchModal } from "./profile-modal";
+import { GROUP_MODE_LABELS, GroupMode, groupEntries, normalizeGroupMode } from "./grouping";
+import { VirtualList } from "./virtual-list";
+import { RANK_SHORTCUTS } from "./cycle";
+
+// Per-leaf state saved in the workspace layout.
+interface ZoxidianViewState {
+	groupBy: GroupMode;
+	collapsed: string[];
+	filter: string;
+}
+
+type RowItem = { path: string; entry: FileEntry; frecency: number; matches?: SearchMatches | null };
+
+// One row in display order, rendered or not (long lists are virtual).
+interface RowSlot {
+	key: string;
+	path: string;
+	list: VirtualList;
+	index: number;
+}
+
+interface RowActions {
+	open: (mod: boolean) => void;
+	remove: () => void;
+	menu: () => void;
+}
 
 export class ZoxidianView extends ItemView {
 	plugin: ZoxidianPlugin;
 	private activeFilePath: string | null = null;
+	// Pinned row being dragged, so drops within the pinned section reorder.
+	private draggedPin: string | null = null;
+	private groupBy: GroupMode = "none";
+	// Keys of collapsed groups, kept per grouping mode ("recency:today").
+	private collapsed = new Set<string>();
+	private filter = "";
+	// The header (filter box and grouping) survives redraws so typing keeps
+	// focus; only the body is rebuilt.
+	private filterInput: HTMLInputElement | null = null;
+	private groupSelect: HTMLSelectElement | null = null;
+	private bodyEl: HTMLElement | null = null;
+	// Roving focus: key ("section:path") of the row that takes Tab focus.
+	// Kept across redraws so the same note stays focused.
+	private focusedKey: string | null = null;
+	// Multi-select: selected note paths, and the row ranges extend from.
+	private selected = new Set<string>();
+	private anchorKey: string | null = null;
+	// Lists in the current render and every row in display order, so keyboard
+	// navigation and range selection also reach rows that are not rendered.
+	private lists: VirtualList[] = [];
+	private order: RowSlot[] = [];
+	// Rows from the previous render by key, reused when nothing they show
+	// changed so a redraw only rebuilds rows that did.
+	private rowCache = new Map<string, { el: HTMLElement; signature: string }>();
+	/** Top of the ranking → its "Open frecent note #N" number. */
+	private rankNumbers = new Map<string, number>();
 
 	constructor(leaf: WorkspaceLeaf, plugin: ZoxidianPlugin) {
 		super(leaf);
@@ -44,6 +99,20 @@ export class ZoxidianView extends ItemView {
 		return Promise.resolve();
 	}
 
+	getState(): Record<string, unknown> {
+		const state: ZoxidianViewState = { groupBy: this.groupBy, collapsed: [...this.collapsed], filter: this.filter };
+		return { ...super.getState(), ...state };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const saved = (state ?? {}) as Partial<ZoxidianViewState>;
+		this.groupBy   = normalizeGroupMode(saved.groupBy);
+		this.collapsed = new Set(Array.isArray(saved.collapsed) ? saved.collapsed.filter(k => typeof k === "string") : []);
+		this.filter    = typeof saved.filter === "string" ? saved.filter : "";
+		await super.setState(state, result);
+		this.redraw();
+	}
+
 	// Called by the plugin's handleRename before redraw() so the active
 	// highlight reflects the new path in the same render pass.
 	notifyRename(oldPath: string, newPath: string): void {
@@ -59,14 +128,346 @@ export class ZoxidianView extends ItemView {
 		void this.app.workspace.getLeaf(false).openFile(file);
 	}
 
+	/** Focus the filter box, for the "Focus panel filter" command. */
+	focusFilter(): void {
+		this.ensureLayout();
+		this.filterInput?.focus();
+		this.filterInput?.select();
+	}
+
+	/** Move keyboard focus into the list, for the "Focus panel" command. */
+	focusList(): void {
+		const slot = this.order.find(s => s.key === this.focusedKey) ?? this.order[0];
+		if (slot) this.revealSlot(slot)?.focus();
+	}
+
+	onResize(): void {
+		for (const list of this.lists) list.update();
+	}
+
+	private renderedRows(): HTMLElement[] {
+		return this.lists.flatMap(list => list.renderedRows());
+	}
+
+	private slotIndex(key: string | null | undefined): number {
+		return this.order.findIndex(s => s.key === key);
+	}
+
+	private revealSlot(slot: RowSlot): HTMLElement | null {
+		return slot.list.reveal(slot.index);
+	}
+
+	/** Tab stop and selection state of one rendered row. */
+	private syncRowState(row: HTMLElement): void {
+		const selected = this.selected.has(row.dataset.path ?? "");
+		row.tabIndex = row.dataset.key === this.focusedKey ? 0 : -1;
+		row.toggleClass("is-selected", selected);
+		row.setAttribute("aria-selected", String(selected));
+	}
+
+	/** Give exactly one row the tab stop, preferring the remembered one. */
+	private restoreFocus(hadFocus: boolean): void {
+		// Notes that are no longer listed (removed, filtered out) drop out of the selection.
+		const listed = new Set(this.order.map(s => s.path));
+		for (const path of this.selected) {
+			if (!listed.has(path)) this.selected.delete(path);
+		}
+
+		const path = this.focusedKey?.slice(this.focusedKey.indexOf(":") + 1);
+		const slot = this.order.find(s => s.key === this.focusedKey)
+			?? this.order.find(s => s.path === path)
+			?? this.order[0];
+		this.focusedKey = slot?.key ?? null;
+		this.updateSelection();
+		if (slot && hadFocus) this.revealSlot(slot)?.focus();
+	}
+
+	private createList(parent: HTMLElement, section: string, label: string, cls = ""): HTMLElement {
+		const listEl = parent.createEl("div", { cls: `zoxidian-list ${cls}`.trim() });
+		listEl.setAttribute("role", "listbox");
+		listEl.setAttribute("aria-multiselectable", "true");
+		listEl.setAttribute("aria-label", label);
+		listEl.dataset.section = section;
+		return listEl;
+	}
+
+	// ---- Selection ----
+
+	private updateSelection(): void {
+		for (const row of this.renderedRows()) this.syncRowState(row);
+	}
+
+	private toggleSelected(row: HTMLElement): void {
+		const path = row.dataset.path ?? "";
+		if (this.selected.has(path)) this.selected.delete(path);
+		else this.selected.add(path);
+		this.anchorKey = row.dataset.key ?? null;
+		this.updateSelection();
+	}
+
+	/** Select every row between the anchor and `key`, replacing the selection. */
+	private selectRange(key: string): void {
+		const anchor = this.slotIndex(this.anchorKey);
+		const target = this.slotIndex(key);
+		if (target === -1) return;
+		const from   = anchor === -1 ? target : Math.min(anchor, target);
+		const to     = anchor === -1 ? target : Math.max(anchor, target);
+		if (anchor === -1) this.anchorKey = key;
+		this.selected = new Set(this.order.slice(from, to + 1).map(s => s.path));
+		this.updateSelection();
+	}
+
+	private clearSelection(): void {
+		if (this.selected.size === 0) return;
+		this.selected.clear();
+		this.updateSelection();
+	}
+
+	/** The paths a row action applies to: the selection when `path` is part of it. */
+	private targetsFor(path: string): string[] {
+		return this.selected.size > 1 && this.selected.has(path) ? [...this.selected] : [path];
+	}
+
+	// ---- Actions ----
+
+	private removePaths(paths: string[]): void {
+		this.plugin.removeEntries(paths);
+		for (const path of paths) this.selected.delete(path);
+		const message = this.containerEl.doc.createDocumentFragment();
+		message.appendText(paths.length === 1 ? "Removed from the list. " : `Removed ${paths.length} notes from the list. `);
+		const undo = message.createEl("a", { text: "Undo", href: "#" });
+		const notice = new Notice(message, 8000);
+		undo.addEventListener("click", (e: MouseEvent) => {
+			e.preventDefault();
+			this.plugin.undoRemoval();
+			notice.hide();
+		});
+	}
+
+	private openAll(paths: string[]): void {
+		for (const path of paths) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) void this.app.workspace.getLeaf("tab").openFile(file);
+		}
+	}
+
+	private async copyAsWikilinks(paths: string[]): Promise<void> {
+		const links = paths.flatMap(path => {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			return file instanceof TFile ? [`[[${this.app.metadataCache.fileToLinktext(file, "")}]]`] : [];
+		});
+		await this.containerEl.win.navigator.clipboard.writeText(links.join("\n"));
+		new Notice(`Copied ${links.length} link(s).`);
+	}
+
+	private buildBulkMenu(paths: string[]): Menu {
+		const menu      = new Menu();
+		const allPinned = paths.every(path => this.plugin.isPinned(path));
+
+		menu.addItem((item) =>
+			item
+				.setTitle(`Open ${paths.length} notes in new tabs`)
+				.setIcon("file-plus")
+				.onClick(() => this.openAll(paths))
+		);
+
+		menu.addItem((item) =>
+			item
+				.setTitle("Copy as wikilinks")
+				.setIcon("links-coming-in")
+				.onClick(() => void this.copyAsWikilinks(paths))
+		);
+
+		menu.addSeparator();
+
+		menu.addItem((item) =>
+			item
+				.setTitle(allPinned ? "Unpin" : "Pin to top")
+				.setIcon(allPinned ? "pin-off" : "pin")
+				.onClick(() => this.plugin.setPinnedAll(paths, !allPinned))
+		);
+
+		menu.addItem((item) =>
+			item
+				.setTitle("Reset score")
+				.setIcon("rotate-ccw")
+				.onClick(() => this.plugin.resetEntries(paths))
+		);
+
+		menu.addItem((item) =>
+			item
+				.setTitle(`Remove ${paths.length} notes from list`)
+				.setIcon("x")
+				.onClick(() => this.removePaths(paths))
+		);
+
+		return menu;
+	}
+
+	private onRowKeydown(e: KeyboardEvent, row: HTMLElement, actions: RowActions): void {
+		const rows  = this.order;
+		const index = this.slotIndex(row.dataset.key);
+		const move  = (target: RowSlot | undefined) => {
+			if (!target) return;
+			e.preventDefault();
+			if (e.shiftKey) {
+				if (this.anchorKey === null || this.selected.size === 0) this.anchorKey = row.dataset.key ?? null;
+				this.selectRange(target.key);
+			}
+			this.revealSlot(target)?.focus();
+		};
+
+		switch (e.key) {
+			case "ArrowDown": return move(rows[index + 1]);
+			case "ArrowUp":
+				if (index === 0) {
+					e.preventDefault();
+					this.filterInput?.focus();
+					return;
+				}
+				return move(rows[index - 1]);
+			case "Home":      return move(rows[0]);
+			case "End":       return move(rows[rows.length - 1]);
+			case "Enter":
+				e.preventDefault();
+				actions.open(e.ctrlKey || e.metaKey);
+				return;
+			case " ":
+				e.preventDefault();
+				this.toggleSelected(row);
+				return;
+			case "a":
+				if (!(e.ctrlKey || e.metaKey)) return;
+				e.preventDefault();
+				this.selected = new Set(rows.map(s => s.path));
+				this.updateSelection();
+				return;
+			case "Escape":
+				if (this.selected.size === 0) return;
+				e.preventDefault();
+				this.clearSelection();
+				return;
+			case "Delete":
+			case "Backspace": {
+				e.preventDefault();
+				// Keep focus in place: the next unremoved row, or the previous one.
+				const targets = new Set(this.targetsFor(row.dataset.path ?? ""));
+				const next = rows.slice(index + 1).find(s => !targets.has(s.path))
+					?? rows.slice(0, index).reverse().find(s => !targets.has(s.path));
+				this.focusedKey = next?.key ?? null;
+				actions.remove();
+				return;
+			}
+			case "ContextMenu":
+				e.preventDefault();
+				actions.menu();
+				return;
+			case "F10":
+				if (!e.shiftKey) return;
+				e.preventDefault();
+				actions.menu();
+				return;
+		}
+	}
+
+	private ensureLayout(): HTMLElement {
+		if (this.bodyEl) return this.bodyEl;
+		this.contentEl.empty();
+		this.contentEl.addClass("zoxidian-container");
+
+		this.registerDomEvent(this.contentEl, "scroll", () => {
+			for (const list of this.lists) list.update();
+		});
+
+		const bar = this.contentEl.createEl("div", { cls: "zoxidian-view-header" });
+
+		const input = bar.createEl("input", {
+			cls: "zoxidian-filter",
+			type: "search",
+			placeholder: "Filter…",
+		});
+		input.setAttribute("aria-label", "Filter notes");
+		input.addEventListener("input", () => this.setFilter(input.value));
+		input.addEventListener("keydown", (e: KeyboardEvent) => {
+			if (e.key === "ArrowDown") {
+				e.preventDefault();
+				this.focusList();
+				return;
+			}
+			if (e.key !== "Escape" || !input.value) return;
+			e.preventDefault();
+			e.stopPropagation();
+			input.value = "";
+			this.setFilter("");
+		});
+		this.filterInput = input;
+
+		const select = bar.createEl("select", { cls: "dropdown zoxidian-group-select" });
+		select.setAttribute("aria-label", "Group notes");
+		for (const [mode, label] of Object.entries(GROUP_MODE_LABELS)) {
+			select.createEl("option", { value: mode, text: label });
+		}
+		select.addEventListener("change", () => {
+			this.groupBy = normalizeGroupMode(select.value);
+			this.app.workspace.requestSaveLayout();
+			this.redraw();
+		});
+		this.groupSelect = select;
+
+		this.bodyEl = this.contentEl.createEl("div", { cls: "zoxidian-body" });
+		return this.bodyEl;
+	}
+
+	private setFilter(value: string): void {
+		if (value === this.filter) return;
+		this.filter = value;
+		this.app.workspace.requestSaveLayout();
+		this.redraw();
+	}
+
+	/**
+	 * Rows whose path fuzzy-matches the filter, in their original order, with
+	 * the match ranges for highlighting. Everything passes an empty filter.
+	 */
+	private applyFilter<T extends RowItem>(items: T[]): T[] {
+		const query = this.filter.trim();
+		if (!query) return items;
+		const fuzzy = prepareFuzzySearch(query);
+		return items.flatMap(item => {
+			const result = fuzzy(item.path);
+			return result ? [{ ...item, matches: result.matches }] : [];
+		});
+	}
+
 	redraw(): void {
-		const container = this.contentEl;
+		const container = this.ensureLayout();
+		const active    = container.ownerDocument.activeElement;
+		const hadFocus  = !!active && container.contains(active) && active.matches(".zoxidian-item");
 		container.empty();
-		container.addClass("zoxidian-container");
+		this.lists = [];
+		this.order = [];
+		if (this.filterInput && this.filterInput.value !== this.filter) this.filterInput.value = this.filter;
+		if (this.groupSelect) this.groupSelect.value = this.groupBy;
+
+		// Only worth the space once there is more than one profile.
+		if (Object.keys(this.plugin.settings.profiles).length > 1) {
+			const header = container.createEl("div", {
+				cls: "zoxidian-profile-header",
+				text: `Profile: ${this.plugin.getActiveProfileName()}`,
+			});
+			header.setAttribute("aria-label", "Switch profile");
+			header.addEventListener("click", () => new ProfileSwitchModal(this.app, this.plugin).open());
+		}
 
-		const entries = this.plugin.getSortedEntries();
+		this.rankNumbers = new Map(
+			this.plugin.getRankedPaths().slice(0, RANK_SHORTCUTS).map((path, i) => [path, i + 1]),
+		);
 
-		if (entries.length === 0) {
+		const allPinned  = this.plugin.getPinnedEntries();
+		const pinSet     = new Set(allPinned.map(p => p.path));
+		const allEntries = this.plugin.getSortedEntries().filter(e => !pinSet.has(e.path));
+
+		if (allEntries.length === 0 && allPinned.length === 0) {
 			container.createEl("p", {
 				cls: "zoxidian-empty",
 				text: "No notes visited yet. Open a note to start tracking.",
@@ -74,129 +475,344 @@ export class ZoxidianView extends ItemView {
 			return;
 		}
 
-		const listEl = container.createEl("div", { cls: "zoxidian-list" });
-		for (const { path, entry, frecency } of entries) {
-			try {
-				const file = this.app.vault.getAbstractFileByPath(path);
-				if (!(file instanceof TFile)) continue;
+		const pinned  = this.applyFilter(allPinned);
+		const entries = this.applyFilter(allEntries);
+		const likely  = this.applyFilter(this.plugin.getLikelyNext().filter(e => e.path !== this.activeFilePath));
+		const usual   = this.applyFilter(this.activeFilePath ? this.plugin.getSuccessorEntries(this.activeFilePath) : []);
+
+		if (entries.length === 0 && pinned.length === 0 && likely.length === 0 && usual.length === 0) {
+			container.createEl("p", { cls: "zoxidian-empty", text: "No notes match the filter." });
+			return;
+		}
 
-				const row = listEl.createEl("div", { cls: "zoxidian-item" });
+		this.renderSections(container, pinned, usual, likely, entries);
+		this.restoreFocus(hadFocus);
 
-				if (path === this.activeFilePath) {
-					row.addClass("is-active");
-				}
+		const listed = new Set(this.order.map(s => s.key));
+		for (const key of this.rowCache.keys()) {
+			if (!listed.has(key)) this.rowCache.delete(key);
+		}
+	}
+
+	/** Render `items` into `listEl`, virtually when the list is long. */
+	private mountList(listEl: HTMLElement, items: RowItem[], pinned = false): void {
+		const section = listEl.dataset.section ?? "";
+		const list = new VirtualList(listEl, this.contentEl, items.length, (parent, index) => {
+			const item = items[index];
+			const row  = item ? this.getRow(parent, item, pinned ? index : null) : null;
+			if (!row) return null;
+			row.setAttribute("aria-posinset", String(index + 1));
+			row.setAttribute("aria-setsize", String(items.length));
+			this.syncRowState(row);
+			return row;
+		});
+		items.forEach((item, index) => this.order.push({ key: `${section}:${item.path}`, path: item.path, list, index }));
+		this.lists.push(list);
+		list.mount();
+	}
+
+	/** A row for `item`: the previous render's when it shows the same thing, else a new one. */
+	private getRow(parent: HTMLElement, item: RowItem, pinIndex: number | null): HTMLElement | null {
+		const section = parent.dataset.section ?? "";
+		const key = `${section}:${item.path}`;
+		const { entry } = item;
+		// Numbers mark the ranking itself, not the suggestion sections.
+		const rank = section === "pinned" || section === "frecent" ? this.rankNumbers.get(item.path) ?? null : null;
+		const signature = JSON.stringify([
+			item.frecency, entry.score, entry.opens, entry.edits, entry.lastAccess, item.matches ?? null,
+			pinIndex, this.plugin.isPinned(item.path), rank, item.path === this.activeFilePath,
+			this.plugin.settings.showFrecencyBadge, this.plugin.settings.showScoreBadge,
+		]);
+		const cached = this.rowCache.get(key);
+		if (cached?.signature === signature) {
+			parent.appendChild(cached.el);
+			return cached.el;
+		}
+		const row = this.renderRow(parent, item, pinIndex, rank);
+		if (row) this.rowCache.set(key, { el: row, signature });
+		else this.rowCache.delete(key);
+		return row;
+	}
+
+	private renderSections(container: HTMLElement, pinned: RowItem[], usual: RowItem[], likely: RowItem[], entries: RowItem[]): void {
+		if (pinned.length > 0) {
+			container.createEl("div", { cls: "zoxidian-section-header", text: "Pinned" });
+			const pinnedEl = this.createList(container, "pinned", "Pinned notes", "zoxidian-pinned");
+			this.mountList(pinnedEl, pinned, true);
+		}
+
+		if (usual.length > 0) {
+			container.createEl("div", { cls: "zoxidian-section-header", text: "Usually opened next" });
+			const usualEl = this.createList(container, "usual", "Usually opened next", "zoxidian-likely");
+			this.mountList(usualEl, usual);
+		}
+
+		if (likely.length > 0) {
+			container.createEl("div", { cls: "zoxidian-section-header", text: "Likely next" });
+			const likelyEl = this.createList(container, "likely", "Likely next", "zoxidian-likely");
+			this.mountList(likelyEl, likely);
+		}
+
+		if ((pinned.length > 0 || usual.length > 0 || likely.length > 0) && entries.length > 0) {
+			container.createEl("div", { cls: "zoxidian-section-header", text: "Frecent" });
+		}
+
+		for (const group of groupEntries(entries, this.groupBy)) {
+			let parent = container;
+			if (this.groupBy !== "none") {
+				const stateKey  = `${this.groupBy}:${group.key}`;
+				const collapsed = this.collapsed.has(stateKey);
+				const groupEl   = container.createEl("div", { cls: "zoxidian-group" });
+				groupEl.toggleClass("is-collapsed", collapsed);
+				const header = groupEl.createEl("div", { cls: "zoxidian-group-header" });
+				header.setAttribute("role", "button");
+				header.setAttribute("aria-expanded", String(!collapsed));
+				header.tabIndex = 0;
+				header.dataset.group = stateKey;
+				header.addEventListener("keydown", (e: KeyboardEvent) => {
+					if (e.key !== "Enter" && e.key !== " ") return;
+					e.preventDefault();
+					this.toggleGroup(stateKey);
+					// The header was rebuilt; put focus back on its replacement.
+					Array.from(container.querySelectorAll<HTMLElement>(".zoxidian-group-header"))
+						.find(el => el.dataset.group === stateKey)?.focus();
+				});
+				header.createEl("span", { cls: "zoxidian-group-chevron", text: "▾" });
+				header.createEl("span", { cls: "zoxidian-group-label", text: group.label });
+				header.createEl("span", { cls: "zoxidian-group-count", text: String(group.items.length) });
+				header.addEventListener("click", () => this.toggleGroup(stateKey));
+				if (collapsed) continue;
+				parent = groupEl;
+			}
+			const listEl = this.createList(parent, "frecent", group.label ? `Frecent notes: ${group.label}` : "Frecent notes");
+			this.mountList(listEl, group.items);
+		}
+	}
 
-				// File icon
-				const iconWrap = row.createEl("span", { cls: "zoxidian-item-icon" });
-				appendFileIcon(iconWrap);
+	private toggleGroup(stateKey: string): void {
+		if (this.collapsed.has(stateKey)) this.collapsed.delete(stateKey);
+		else this.collapsed.add(stateKey);
+		this.app.workspace.requestSaveLayout();
+		this.redraw();
+	}
+
+	// `pinIndex` is the row's position in the pinned section, or null for
+	// rows in the other sections, which may still show a pinned note.
+	// `rank` is the row's shortcut number, if any.
+	private renderRow(
+		listEl: HTMLElement,
+		{ path, entry, frecency, matches }: RowItem,
+		pinIndex: number | null,
+		rank: number | null = null,
+	): HTMLElement | null {
+		try {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) return null;
+
+			const pinned = this.plugin.isPinned(path);
+			const row = listEl.createEl("div", { cls: "zoxidian-item" });
+			const key = `${listEl.dataset.section ?? ""}:${path}`;
+			row.dataset.key  = key;
+			row.dataset.path = path;
+			row.setAttribute("role", "option");
+
+			if (path === this.activeFilePath) {
+				row.addClass("is-active");
+				row.setAttribute("aria-current", "page");
+			}
+			if (pinIndex !== null) {
+				row.addClass("is-pinned");
+			}
+
+			// File icon
+			const iconWrap = row.createEl("span", { cls: "zoxidian-item-icon" });
+			appendFileIcon(iconWrap);
+
+			// Note name, with the filter's hits highlighted. Matches are
+			// against the full path, so offset them to where the name starts.
+			const nameEl = row.createEl("span", { cls: "zoxidian-item-name" });
+			renderMatches(nameEl, file.basename, matches ?? null, path.lastIndexOf("/") + 1);
+
+			if (rank !== null) {
+				const marker = row.createEl("span", { cls: "zoxidian-rank-marker", text: String(rank) });
+				marker.setAttribute("aria-label", `Open frecent note #${rank}`);
+			}
+
+			// Score badges — conditionally rendered based on settings
+			const badgeWrap = row.createEl("span", { cls: "zoxidian-badges" });
+
+			if (this.plugin.settings.showFrecencyBadge) {
+				const frecBadge = badgeWrap.createEl("span", {
+					cls: "zoxidian-badge zoxidian-badge-frecency",
+					text: formatScore(frecency),
+				});
+				frecBadge.setAttribute("aria-label", "Frecency score");
+			}
 
-				// Note name
-				row.createEl("span", {
-					cls: "zoxidian-item-name",
-					text: file.basename,
+			if (this.plugin.settings.showScoreBadge) {
+				const baseBadge = badgeWrap.createEl("span", {
+					cls: "zoxidian-badge zoxidian-badge-base",
+					text: formatScore(entry.score),
 				});
+				baseBadge.setAttribute("aria-label", "Score");
+			}
+
+			// Tooltip
+			row.title =
+				`Frecency: ${frecency.toFixed(2)}\n` +
+				`Score: ${entry.score.toFixed(1)}\n` +
+				(entry.opens !== undefined || entry.edits !== undefined
+					? `Opens: ${entry.opens ?? 0} · Edits: ${entry.edits ?? 0}\n`
+					: "") +
+				`Last access: ${new Date(entry.lastAccess).toLocaleString()}\n` +
+				`Path: ${path}`;
+			const boost = this.plugin.explainContextBoost(entry);
+			if (boost) row.title += `\n${boost}`;
+
+			// Screen readers announce the name with both scores.
+			row.setAttribute("aria-label",
+				`${file.basename}, frecency ${frecency.toFixed(1)}, score ${entry.score.toFixed(1)}` +
+				(pinned ? ", pinned" : ""));
 
-				// Score badges — conditionally rendered based on settings
-				const badgeWrap = row.createEl("span", { cls: "zoxidian-badges" });
+			// Mod inverts the "open in new tab" setting, for Enter and middle-click.
+			const open = (mod: boolean) => {
+				const newTab = this.plugin.settings.openInNewTab ? !mod : mod;
 
-				if (this.plugin.settings.showFrecencyBadge) {
-					const frecBadge = badgeWrap.createEl("span", {
-						cls: "zoxidian-badge zoxidian-badge-frecency",
-						text: formatScore(frecency),
-					});
-					frecBadge.setAttribute("aria-label", "Frecency score");
+				if (newTab) {
+					void this.app.workspace.getLeaf("tab").openFile(file);
+				} else {
+					this.openOrReveal(file);
 				}
+			};
 
-				if (this.plugin.settings.showScoreBadge) {
-					const baseBadge = badgeWrap.createEl("span", {
-						cls: "zoxidian-badge zoxidian-badge-base",
-						text: formatScore(entry.score),
-					});
-					baseBadge.setAttribute("aria-label", "Score");
+			// Click to open; Shift selects a range, Ctrl/Cmd toggles one row.
+			row.addEventListener("click", (e: MouseEvent) => {
+				if (e.shiftKey) {
+					this.selectRange(key);
+				} else if (e.ctrlKey || e.metaKey) {
+					this.toggleSelected(row);
+				} else {
+					this.anchorKey = key;
+					this.clearSelection();
+					open(false);
 				}
+			});
+			row.addEventListener("auxclick", (e: MouseEvent) => {
+				if (e.button !== 1) return;
+				e.preventDefault();
+				open(true);
+			});
 
-				// Tooltip
-				row.title =
-					`Frecency: ${frecency.toFixed(2)}\n` +
-					`Score: ${entry.score.toFixed(1)}\n` +
-					`Last access: ${new Date(entry.lastAccess).toLocaleString()}\n` +
-					`Path: ${path}`;
-
-				// Click to open
-				row.addEventListener("click", (e: MouseEvent) => {
-					const newTab = this.plugin.settings.openInNewTab
-						? !(e.ctrlKey || e.metaKey)
-						: e.ctrlKey || e.metaKey;
-
-					if (newTab) {
-						void this.app.workspace.getLeaf("tab").openFile(file);
-					} else {
-						this.openOrReveal(file);
-					}
-				});
+			// Context menu
+			const buildMenu = () => {
+				const menu = new Menu();
+
+				menu.addItem((item) =>
+					item
+						.setTitle("Open")
+						.setIcon("arrow-right-circle")
+						.onClick(() => this.openOrReveal(file))
+				);
+
+				menu.addItem((item) =>
+					item
+						.setTitle("Open in new tab")
+						.setIcon("file-plus")
+						.onClick(() =>
+							void this.app.workspace.getLeaf("tab").openFile(file)
+						)
+				);
+
+				menu.addItem((item) =>
+					item
+						.setTitle("Open to the right")
+						.setIcon("separator-vertical")
+						.onClick(() =>
+							void this.app.workspace.getLeaf("split").openFile(file)
+						)
+				);
+
+				menu.addSeparator();
+
+				menu.addItem((item) =>
+					item
+						.setTitle(pinned ? "Unpin" : "Pin to top")
+						.setIcon(pinned ? "pin-off" : "pin")
+						.onClick(() => this.plugin.setPinned(path, !pinned))
+				);
+
+				menu.addItem((item) =>
+					item
+						.setTitle("Remove from list")
+						.setIcon("x")
+						.onClick(() => this.removePaths([path]))
+				);
+
+				return menu;
+			};
+			// Right-clicking a selected row acts on the whole selection.
+			const menuFor = () => {
+				const targets = this.targetsFor(path);
+				return targets.length > 1 ? this.buildBulkMenu(targets) : buildMenu();
+			};
+
+			row.addEventListener("contextmenu", (e: MouseEvent) => {
+				e.preventDefault();
+				menuFor().showAtMouseEvent(e);
+			});
 
-				// Context menu
-				row.addEventListener("contextmenu", (e: MouseEvent) => {
+			// Keyboard
+			row.addEventListener("focus", () => {
+				this.focusedKey = key;
+				for (const other of this.renderedRows()) {
+					other.tabIndex = other === row ? 0 : -1;
+				}
+			});
+			row.addEventListener("keydown", (e: KeyboardEvent) => this.onRowKeydown(e, row, {
+				open,
+				remove: () => this.removePaths(this.targetsFor(path)),
+				menu:   () => {
+					const rect = row.getBoundingClientRect();
+					menuFor().showAtPosition({ x: rect.left, y: rect.bottom });
+				},
+			}));
+
+			// Drag-and-drop
+			row.draggable = true;
+			row.addEventListener("dragstart", (e: DragEvent) => {
+				const linkText = this.app.metadataCache.fileToLinktext(file, "");
+				e.dataTransfer?.setData("text/plain", `[[${linkText}]]`);
+				e.dataTransfer?.setData(
+					"application/json",
+					JSON.stringify({ type: "file", path: file.path })
+				);
+				this.draggedPin = pinIndex !== null ? path : null;
+			});
+			row.addEventListener("dragend", () => { this.draggedPin = null; });
+
+			if (pinIndex !== null) {
+				row.addEventListener("dragover", (e: DragEvent) => {
+					if (this.draggedPin === null || this.draggedPin === path) return;
 					e.preventDefault();
-					const menu = new Menu();
-
-					menu.addItem((item) =>
-						item
-							.setTitle("Open")
-							.setIcon("arrow-right-circle")
-							.onClick(() => this.openOrReveal(file))
-					);
-
-					menu.addItem((item) =>
-						item
-							.setTitle("Open in new tab")
-							.setIcon("file-plus")
-							.onClick(() =>
-								void this.app.workspace.getLeaf("tab").openFile(file)
-							)
-					);
-
-					menu.addItem((item) =>
-						item
-							.setTitle("Open to the right")
-							.setIcon("separator-vertical")
-							.onClick(() =>
-								void this.app.workspace.getLeaf("split").openFile(file)
-							)
-					);
-
-					menu.addSeparator();
-
-					menu.addItem((item) =>
-						item
-							.setTitle("Remove from list")
-							.setIcon("x")
-							.onClick(async () => {
-								this.plugin.removeEntry(path);
-								await this.plugin.persistData();
-								this.redraw();
-							})
-					);
-
-					menu.showAtMouseEvent(e);
+					row.addClass("is-drop-target");
 				});
-
-				// Drag-and-drop
-				row.draggable = true;
-				row.addEventListener("dragstart", (e: DragEvent) => {
-					const linkText = this.app.metadataCache.fileToLinktext(file, "");
-					e.dataTransfer?.setData("text/plain", `[[${linkText}]]`);
-					e.dataTransfer?.setData(
-						"application/json",
-						JSON.stringify({ type: "file", path: file.path })
-					);
+				row.addEventListener("dragleave", () => row.removeClass("is-drop-target"));
+				row.addEventListener("drop", (e: DragEvent) => {
+					if (this.draggedPin === null) return;
+					e.preventDefault();
+					row.removeClass("is-drop-target");
+					const dragged = this.draggedPin;
+					this.draggedPin = null;
+					this.plugin.movePinned(dragged, pinIndex);
 				});
-
-			} catch (err) {
-				console.error(`[Zoxidian] Failed to render row for "${path}":`, err);
-				const errRow = listEl.createEl("div", { cls: "zoxidian-item zoxidian-item-error" });
-				errRow.createEl("span", { cls: "zoxidian-item-name", text: `⚠ ${path}` });
 			}
+
+			return row;
+		} catch (err) {
+			console.error(`[Zoxidian] Failed to render row for "${path}":`, err);
+			const errRow = listEl.createEl("div", { cls: "zoxidian-item zoxidian-item-error" });
+			errRow.createEl("span", { cls: "zoxidian-item-name", text: `⚠ ${path}` });
+			return null;
 		}
 	}
 }
@@ -0,0 +1,123 @@
+// ---------------------------------------------------------------------------
+// Virtual list — renders only the rows of a long list that are in or near
+// the viewport of its scroll container. Rows share one height (measured from
+// the first row); the list element is sized to hold all of them and each
+// rendered row is absolutely positioned at index × height. Lists up to
+// VIRTUAL_THRESHOLD rows render every row in normal flow instead.
+// ---------------------------------------------------------------------------
+
+export const VIRTUAL_THRESHOLD = 150;
+/** Rows rendered beyond each edge of the viewport, so scrolling stays smooth. */
+const OVERSCAN = 10;
+const FALLBACK_ROW_HEIGHT = 26;
+
+/**
+ * Rows to render for a list whose top sits `listTop` px below the top of
+ * the viewport (negative once scrolled past): `[from, to]` inclusive, or
+ * null when no row is in range.
+ */
+export function visibleRange(
+	count: number,
+	rowHeight: number,
+	listTop: number,
+	viewportHeight: number,
+	overscan = OVERSCAN,
+): [number, number] | null {
+	if (count === 0 || rowHeight <= 0) return null;
+	const from = Math.max(0, Math.floor(-listTop / rowHeight) - overscan);
+	const to   = Math.min(count - 1, Math.ceil((viewportHeight - listTop) / rowHeight) + overscan);
+	return from <= to ? [from, to] : null;
+}
+
+export class VirtualList {
+	readonly virtual: boolean;
+	private rendered = new Map<number, HTMLElement>();
+	private rowHeight = FALLBACK_ROW_HEIGHT;
+
+	/**
+	 * `renderRow` appends the row for `index` to `parent` (or reuses one) and
+	 * returns it, or null when there is nothing to show for that index.
+	 */
+	constructor(
+		private listEl: HTMLElement,
+		private scrollEl: HTMLElement,
+		readonly count: number,
+		private renderRow: (parent: HTMLElement, index: number) => HTMLElement | null,
+	) {
+		this.virtual = count > VIRTUAL_THRESHOLD;
+	}
+
+	mount(): void {
+		if (!this.virtual) {
+			for (let i = 0; i < this.count; i++) {
+				const row = this.renderRow(this.listEl, i);
+				if (!row) continue;
+				row.removeClass("zoxidian-virtual-row");
+				this.rendered.set(i, row);
+			}
+			return;
+		}
+
+		this.listEl.addClass("zoxidian-virtual");
+		const first = this.renderRow(this.listEl, 0);
+		if (first) {
+			// +1 keeps the 1px gap the flex list has between rows.
+			this.rowHeight = (first.offsetHeight || FALLBACK_ROW_HEIGHT - 1) + 1;
+			this.place(first, 0);
+		}
+		this.listEl.setCssProps({ "--zoxidian-list-height": `${this.count * this.rowHeight}px` });
+		this.update();
+	}
+
+	/** Render the rows now in view and drop the ones that scrolled away. */
+	update(): void {
+		if (!this.virtual) return;
+		const range = visibleRange(this.count, this.rowHeight, this.listTop(), this.scrollEl.clientHeight);
+		const [from, to] = range ?? [0, -1];
+
+		for (const [index, row] of this.rendered) {
+			// A focused row stays, or keyboard focus would drop to the body.
+			if ((index >= from && index <= to) || row === row.ownerDocument.activeElement) continue;
+			row.detach();
+			this.rendered.delete(index);
+		}
+		for (let i = from; i <= to; i++) {
+			if (this.rendered.has(i)) continue;
+			const row = this.renderRow(this.listEl, i);
+			if (row) this.place(row, i);
+		}
+	}
+
+	/** The row for `index` when it is rendered. */
+	elementAt(index: number): HTMLElement | null {
+		return this.rendered.get(index) ?? null;
+	}
+
+	/** Rendered rows, in no particular order. */
+	renderedRows(): HTMLElement[] {
+		return [...this.rendered.values()];
+	}
+
+	/** Scroll row `index` into view, rendering it first if needed. */
+	reveal(index: number): HTMLElement | null {
+		if (this.virtual && !this.rendered.has(index)) {
+			const top = this.listTop() + index * this.rowHeight;
+			this.scrollEl.scrollTop += top - (this.scrollEl.clientHeight - this.rowHeight) / 2;
+			this.update();
+		}
+		const row = this.rendered.get(index) ?? null;
+		row?.scrollIntoView({ block: "nearest" });
+		return row;
+	}
+
+	private place(row: HTMLElement, index: number): void {
+		row.addClass("zoxidian-virtual-row");
+		row.setCssProps({ "--zoxidian-row-top": `${index * this.rowHeight}px` });
+		this.rendered.set(index, row);
+	}
+
+	/** Top of the list relative to the top of the scroll container's viewport. */
+	private listTop(): number {
+		return this.listEl.getBoundingClientRect().top - this.scrollEl.getBoundingClientRect().top;
+	}
+}
@@ -0,0 +1,72 @@
+import type { FileEntry } from "./types";
+
+// ---------------------------------------------------------------------------
+// Visit log — each entry keeps a bounded, chronologically ordered list of
+// recent visit timestamps. Once the log reaches its cap the oldest visit is
+// dropped for every new one, so it behaves like a ring buffer.
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_VISIT_LOG_SIZE = 20;
+
+export function trimVisits(visits: number[], cap: number): number[] {
+	if (cap <= 0) return [];
+	return visits.length > cap ? visits.slice(visits.length - cap) : visits;
+}
+
+export function pushVisit(entry: FileEntry, at: number, cap: number): void {
+	entry.visits.push(at);
+	entry.visits = trimVisits(entry.visits, cap);
+}
+
+/** A copy of `entry` that shares nothing with it. */
+export function copyEntry(entry: FileEntry): FileEntry {
+	return { ...entry, visits: [...entry.visits] };
+}
+
+/**
+ * Combine two entries for the same note — scores and counters add up, the
+ * latest access wins and both visit logs are interleaved in time order
+ * before trimming.
+ */
+export function mergeEntries(a: FileEntry, b: FileEntry, cap: number): FileEntry {
+	const visits = [...a.visits, ...b.visits].sort((x, y) => x - y);
+	const merged: FileEntry = {
+		score:      a.score + b.score,
+		lastAccess: Math.max(a.lastAccess, b.lastAccess),
+		visits:     trimVisits(visits, cap),
+	};
+	if (a.opens !== undefined || b.opens !== undefined) merged.opens = (a.opens ?? 0) + (b.opens ?? 0);
+	if (a.edits !== undefined || b.edits !== undefined) merged.edits = (a.edits ?? 0) + (b.edits ?? 0);
+	return merged;
+}
+
+// ---------------------------------------------------------------------------
+// Migration — data.json files written before the visit log existed only
+// carry `score` and `lastAccess`. Seed the log from `lastAccess` so the
+// most recent visit is preserved and nothing else is lost.
+// ---------------------------------------------------------------------------
+
+export function normalizeFiles(raw: unknown, cap: number): Record<string, FileEntry> {
+	if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return {};
+
+	const files: Record<string, FileEntry> = {};
+	for (const [path, value] of Object.entries(raw as Record<string, unknown>)) {
+		const entry = normalizeEntry(value, cap);
+		if (entry) files[path] = entry;
+	}
+	return files;
+}
+
+function normalizeEntry(value: unknown, cap: number): FileEntry | null {
+	if (typeof value !== "object" || value === null) return null;
+	const { score, lastAccess, visits } = value as Partial<FileEntry>;
+	if (typeof score !== "number" || !isFinite(score)) return null;
+
+	const last = typeof lastAccess === "number" && isFinite(lastAccess) ? lastAccess : 0;
+	const log  = Array.isArray(visits)
+		? visits.filter((v): v is number => typeof v === "number" && isFinite(v)).sort((x, y) => x - y)
+		: [];
+	if (log.length === 0 && last > 0) log.push(last);
+
+	return { ...(value as FileEntry), score, lastAccess: last, visits: trimVisits(log, cap) };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const { describeContextBoost, getContextBoost, MIN_CONTEXT_VISITS } = await import("../src/context");
+const { DEFAULT_SCORING, getFrecency } = await import("../src/frecency");
+
+// Local times, so the tests hold in any time zone. 5 Jan 2024 is a Friday.
+const at = (day: number, hour: number) => new Date(2024, 0, day, hour, 0).getTime();
+const NOW = at(5, 9);
+
+const FRIDAY_MORNINGS = [at(-16, 9), at(-9, 9), at(-2, 9)];
+
+function entry(visits: number[]) {
+	return { score: 10, lastAccess: Math.max(...visits), visits };
+}
+
+describe("getContextBoost", () => {
+	it("boosts notes visited at this hour on this weekday", () => {
+		// Fridays at 9:00, 8:00 and 10:00
+		const boost = getContextBoost(entry([at(-2, 9), at(-9, 8), at(-16, 10)]), NOW, 1);
+		expect(boost.hourMatches).toBe(3);
+		expect(boost.weekdayMatches).toBe(3);
+		expect(boost.multiplier).toBeCloseTo(2, 5);
+	});
+
+	it("treats the hour window as circular around midnight", () => {
+		const late = at(5, 0);
+		const boost = getContextBoost(entry([at(1, 23), at(2, 23), at(3, 0)]), late, 1);
+		expect(boost.hourMatches).toBe(3);
+	});
+
+	it("does not boost notes with an evenly spread or short history", () => {
+		const spread = getContextBoost(entry([at(1, 15), at(2, 20), at(3, 2), at(4, 18)]), NOW, 1);
+		expect(spread.multiplier).toBe(1);
+
+		const short = getContextBoost(entry([at(5, 9)].slice(0, MIN_CONTEXT_VISITS - 1)), NOW, 1);
+		expect(short.multiplier).toBe(1);
+	});
+
+	it("scales with the strength", () => {
+		const weak   = getContextBoost(entry(FRIDAY_MORNINGS), NOW, 0.5).multiplier;
+		const strong = getContextBoost(entry(FRIDAY_MORNINGS), NOW, 2).multiplier;
+		expect(weak).toBeCloseTo(1.5, 5);
+		expect(strong).toBeCloseTo(3, 5);
+		expect(getContextBoost(entry(FRIDAY_MORNINGS), NOW, 0).multiplier).toBe(1);
+	});
+});
+
+describe("describeContextBoost", () => {
+	it("explains a boost in terms of matching visits", () => {
+		const boost = getContextBoost(entry(FRIDAY_MORNINGS), NOW, 1);
+		expect(describeContextBoost(boost, NOW)).toBe("Boosted × 2.00: 3 of 3 visits around 09:00, 3 on Fridays");
+	});
+
+	it("returns null without a boost", () => {
+		const boost = getContextBoost(entry([at(1, 15)]), NOW, 1);
+		expect(describeContextBoost(boost, NOW)).toBeNull();
+	});
+});
+
+describe("getFrecency with a context boost", () => {
+	it("multiplies the strategy frecency", () => {
+		const e = entry(FRIDAY_MORNINGS);
+		const plain   = getFrecency(e, NOW, DEFAULT_SCORING);
+		const boosted = getFrecency(e, NOW, { ...DEFAULT_SCORING, contextStrength: 1 });
+		expect(boosted).toBeCloseTo(plain * 2, 5);
+	});
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const { RankingCycle } = await import("../src/cycle");
+
+describe("RankingCycle", () => {
+	it("steps through the ranking and wraps around", () => {
+		const cycle = new RankingCycle();
+		const rank = () => ["a.md", "b.md", "c.md"];
+		expect(cycle.step("b.md", 1, rank)).toBe("c.md");
+		expect(cycle.step("c.md", 1, rank)).toBe("a.md");
+		expect(cycle.step("a.md", -1, rank)).toBe("c.md");
+	});
+
+	it("starts at the top or bottom from a note outside the ranking", () => {
+		expect(new RankingCycle().step("x.md", 1, () => ["a.md", "b.md"])).toBe("a.md");
+		expect(new RankingCycle().step(null, -1, () => ["a.md", "b.md"])).toBe("b.md");
+	});
+
+	it("keeps its snapshot while the cycle drives the active note", () => {
+		const cycle = new RankingCycle();
+		let ranking = ["a.md", "b.md", "c.md"];
+		const rank = () => ranking;
+		expect(cycle.step("a.md", 1, rank)).toBe("b.md");
+		// Opening b.md made it the top note; the cycle should not notice.
+		ranking = ["b.md", "a.md", "c.md"];
+		expect(cycle.step("b.md", 1, rank)).toBe("c.md");
+	});
+
+	it("takes a new snapshot once another note is opened", () => {
+		const cycle = new RankingCycle();
+		let ranking = ["a.md", "b.md", "c.md"];
+		const rank = () => ranking;
+		cycle.step("a.md", 1, rank);
+		ranking = ["c.md", "a.md", "b.md"];
+		expect(cycle.step("a.md", 1, rank)).toBe("b.md");
+	});
+
+	it("returns null for an empty ranking", () => {
+		expect(new RankingCycle().step("a.md", 1, () => [])).toBeNull();
+	});
+});
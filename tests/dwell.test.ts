@@ -0,0 +1,97 @@
+import { mock, describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const { DwellTracker, MAX_DWELL_BONUS } = await import("../src/dwell");
+
+function makeTracker(options?: Partial<{ minDwellSeconds: number; dwellBonusPerMinute: number; idleTimeoutSeconds: number }>) {
+	const settings = { minDwellSeconds: 5, dwellBonusPerMinute: 0, idleTimeoutSeconds: 60, ...options };
+	const count = mock((_path: string, _wasAlreadyOpen: boolean) => true);
+	const bonus = mock((_path: string, _amount: number) => {});
+	const tracker = new DwellTracker(() => settings, { count, bonus });
+	return { tracker, count, bonus, settings };
+}
+
+describe("DwellTracker", () => {
+	it("counts immediately when the minimum dwell is 0", () => {
+		const { tracker, count } = makeTracker({ minDwellSeconds: 0 });
+		tracker.start("a.md", false, 0);
+		expect(count).toHaveBeenCalledWith("a.md", false);
+	});
+
+	it("does not count a note left before the minimum dwell", () => {
+		const { tracker, count } = makeTracker();
+		tracker.start("a.md", false, 0);
+		tracker.start("b.md", false, 2_000);
+		tracker.tick(4_000);
+		expect(count).not.toHaveBeenCalled();
+	});
+
+	it("counts once the minimum dwell is reached", () => {
+		const { tracker, count } = makeTracker();
+		tracker.start("a.md", false, 0);
+		tracker.tick(5_000);
+		tracker.tick(6_000);
+		expect(count).toHaveBeenCalledTimes(1);
+	});
+
+	it("does not accrue time while the window is unfocused", () => {
+		const { tracker, count } = makeTracker();
+		tracker.start("a.md", false, 0);
+		tracker.blur(1_000);
+		tracker.tick(30_000);
+		expect(count).not.toHaveBeenCalled();
+		tracker.focus(30_000);
+		tracker.tick(34_000);
+		expect(count).toHaveBeenCalledTimes(1);
+	});
+
+	it("stops accruing after the idle timeout", () => {
+		const { tracker, count } = makeTracker({ minDwellSeconds: 20, idleTimeoutSeconds: 10 });
+		tracker.start("a.md", false, 0);
+		tracker.tick(60_000);
+		expect(count).not.toHaveBeenCalled();
+		tracker.activity(60_000);
+		tracker.tick(70_000);
+		expect(count).toHaveBeenCalledTimes(1);
+	});
+
+	it("follows renames and folder moves mid-dwell", () => {
+		const { tracker, count } = makeTracker();
+		tracker.start("old/a.md", false, 0);
+		tracker.rename("old", "new");
+		tracker.rename("new/a.md", "new/b.md");
+		tracker.tick(5_000);
+		expect(count).toHaveBeenCalledWith("new/b.md", false);
+	});
+
+	it("drops the pending visit when its note is deleted", () => {
+		const { tracker, count } = makeTracker();
+		tracker.start("a.md", false, 0);
+		tracker.remove("a.md");
+		tracker.tick(5_000);
+		expect(count).not.toHaveBeenCalled();
+		expect(tracker.pendingPath).toBeNull();
+	});
+
+	it("adds a capped bonus proportional to active minutes when leaving", () => {
+		const { tracker, bonus } = makeTracker({ minDwellSeconds: 0, dwellBonusPerMinute: 0.5, idleTimeoutSeconds: 600 });
+		tracker.start("a.md", false, 0);
+		tracker.activity(120_000);
+		tracker.stop(240_000);
+		expect(bonus).toHaveBeenCalledWith("a.md", 2);
+
+		tracker.start("b.md", false, 0);
+		for (let t = 60_000; t <= 3_600_000; t += 60_000) tracker.activity(t);
+		tracker.stop(3_600_000);
+		expect(bonus).toHaveBeenLastCalledWith("b.md", MAX_DWELL_BONUS);
+	});
+
+	it("gives no bonus to an ignored (tab switch) visit", () => {
+		const { tracker, count, bonus } = makeTracker({ minDwellSeconds: 0, dwellBonusPerMinute: 1 });
+		count.mockImplementation(() => false);
+		tracker.start("a.md", true, 0);
+		tracker.stop(120_000);
+		expect(bonus).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const { parentFolders, rollUpFolders, movePrefix, deletePrefix } = await import("../src/folders");
+const { DEFAULT_SCORING } = await import("../src/frecency");
+
+const NOW = 1_700_000_000_000;
+
+function note(path: string, score: number, frecency: number) {
+	return { path, entry: { score, lastAccess: NOW, visits: [NOW] }, frecency };
+}
+
+describe("parentFolders", () => {
+	it("lists every ancestor outermost first", () => {
+		expect(parentFolders("a/b/c.md")).toEqual(["a", "a/b"]);
+	});
+
+	it("returns nothing for notes in the vault root", () => {
+		expect(parentFolders("c.md")).toEqual([]);
+	});
+});
+
+describe("rollUpFolders", () => {
+	it("sums descendant note frecency into every ancestor", () => {
+		const ranks = rollUpFolders([
+			note("a/b/one.md", 1, 4),
+			note("a/two.md",   2, 8),
+		], {}, DEFAULT_SCORING, NOW);
+
+		const a  = ranks.find(r => r.path === "a");
+		const ab = ranks.find(r => r.path === "a/b");
+		expect(a).toMatchObject({ frecency: 12, score: 3, noteCount: 2, topNote: "a/two.md" });
+		expect(ab).toMatchObject({ frecency: 4, score: 1, noteCount: 1, topNote: "a/b/one.md" });
+		expect(ranks[0]?.path).toBe("a");
+	});
+
+	it("counts direct folder visits on the folder and its ancestors", () => {
+		const ranks = rollUpFolders([], {
+			"a/b": { score: 1, lastAccess: NOW, visits: [NOW] },
+		}, DEFAULT_SCORING, NOW);
+
+		expect(ranks.find(r => r.path === "a/b")?.frecency).toBe(4);
+		expect(ranks.find(r => r.path === "a")?.frecency).toBe(4);
+		expect(ranks.find(r => r.path === "a/b")?.topNote).toBeNull();
+	});
+});
+
+describe("movePrefix", () => {
+	it("moves the prefix and everything below it, leaving siblings alone", () => {
+		const map = {
+			"a":        { score: 1, lastAccess: 1, visits: [1] },
+			"a/x.md":   { score: 2, lastAccess: 2, visits: [2] },
+			"ab/y.md":  { score: 3, lastAccess: 3, visits: [3] },
+		};
+		expect(movePrefix(map, "a", "z", 20)).toBe(true);
+		expect(Object.keys(map).sort()).toEqual(["ab/y.md", "z", "z/x.md"]);
+	});
+
+	it("merges into entries that already exist at the destination", () => {
+		const map = {
+			"a/x.md": { score: 2, lastAccess: 2, visits: [2] },
+			"z/x.md": { score: 5, lastAccess: 9, visits: [9] },
+		};
+		movePrefix(map, "a", "z", 20);
+		expect(map["z/x.md"]).toEqual({ score: 7, lastAccess: 9, visits: [2, 9] });
+	});
+});
+
+describe("deletePrefix", () => {
+	it("removes the prefix and its descendants only", () => {
+		const map: Record<string, number> = { "a": 1, "a/x.md": 2, "ab.md": 3 };
+		expect(deletePrefix(map, "a")).toBe(true);
+		expect(map).toEqual({ "ab.md": 3 });
+	});
+});
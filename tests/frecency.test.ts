@@ -3,7 +3,7 @@ import type { FileEntry } from "../src/types";
 import "./obsidian-mock";
 
 // Dynamic import so the mock is registered before the module loads.
-const { getFrecency, applyAging } = await import("../src/frecency");
+const { getFrecency, getDecayFrecency, getFirefoxFrecency, applyAging, validateBuckets, DEFAULT_SCORING } = await import("../src/frecency");
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -15,7 +15,7 @@ const WEEK = 604_800_000;
 const NOW  = 1_700_000_000_000;
 
 function entry(score: number, msAgo: number): FileEntry {
-	return { score, lastAccess: NOW - msAgo };
+	return { score, lastAccess: NOW - msAgo, visits: [NOW - msAgo] };
 }
 
 // ---------------------------------------------------------------------------
@@ -60,6 +60,101 @@ describe("getFrecency", () => {
 	});
 });
 
+describe("getFrecency strategy dispatch", () => {
+	it("defaults to the zoxide buckets", () => {
+		expect(getFrecency(entry(10, 3 * DAY), NOW, DEFAULT_SCORING)).toBe(5);
+	});
+
+	it("uses exponential decay when strategy is decay", () => {
+		const options = { ...DEFAULT_SCORING, scoringStrategy: "decay" as const, halfLifeHours: 24 };
+		expect(getFrecency(entry(10, DAY), NOW, options)).toBeCloseTo(20);
+	});
+
+	it("uses Firefox-style weights when strategy is firefox", () => {
+		const options = { ...DEFAULT_SCORING, scoringStrategy: "firefox" as const };
+		expect(getFrecency(entry(10, 20 * DAY), NOW, options)).toBe(20);
+	});
+});
+
+describe("custom recency table", () => {
+	const MINUTE = 60_000;
+	const options = {
+		...DEFAULT_SCORING,
+		recencyBuckets: [
+			{ within: 15 * MINUTE, multiplier: 8 },
+			{ within: DAY,         multiplier: 1 },
+		],
+		olderMultiplier: 1 / 3,
+	};
+
+	it("applies the first bucket whose threshold exceeds the elapsed time", () => {
+		expect(getFrecency(entry(10, 5 * MINUTE), NOW, options)).toBe(80);
+		expect(getFrecency(entry(10, 2 * HOUR), NOW, options)).toBe(10);
+	});
+
+	it("falls through to the older multiplier", () => {
+		expect(getFrecency(entry(9, 2 * DAY), NOW, options)).toBeCloseTo(3);
+	});
+});
+
+describe("validateBuckets", () => {
+	it("accepts the default zoxide table", () => {
+		expect(validateBuckets(DEFAULT_SCORING.recencyBuckets, DEFAULT_SCORING.olderMultiplier)).toBeNull();
+	});
+
+	it("rejects non-monotonic thresholds", () => {
+		const buckets = [{ within: DAY, multiplier: 2 }, { within: HOUR, multiplier: 4 }];
+		expect(validateBuckets(buckets, 0.25)).toContain("Row 2");
+	});
+
+	it("rejects negative multipliers", () => {
+		expect(validateBuckets([{ within: HOUR, multiplier: -1 }], 0.25)).toContain("Row 1");
+		expect(validateBuckets([], -0.5)).not.toBeNull();
+	});
+
+	it("rejects non-positive thresholds", () => {
+		expect(validateBuckets([{ within: 0, multiplier: 1 }], 0.25)).not.toBeNull();
+	});
+});
+
+describe("getDecayFrecency", () => {
+	it("scores × 4 for a visit that just happened", () => {
+		expect(getDecayFrecency(entry(10, 0), NOW, 24)).toBe(40);
+	});
+
+	it("halves after each half-life", () => {
+		expect(getDecayFrecency(entry(10, 2 * DAY), NOW, 24)).toBeCloseTo(10);
+	});
+
+	it("decays continuously between half-lives", () => {
+		const early = getDecayFrecency(entry(10, 1 * HOUR), NOW, 24);
+		const later = getDecayFrecency(entry(10, 2 * HOUR), NOW, 24);
+		expect(early).toBeGreaterThan(later);
+		expect(early).toBeLessThan(40);
+	});
+});
+
+describe("getFirefoxFrecency", () => {
+	it("weights a visit within 4 days at 100 (× 4)", () => {
+		expect(getFirefoxFrecency(entry(10, 2 * DAY), NOW)).toBe(40);
+	});
+
+	it("weights a visit older than 90 days at 10", () => {
+		expect(getFirefoxFrecency(entry(10, 120 * DAY), NOW)).toBe(4);
+	});
+
+	it("averages the weights of the sampled visits", () => {
+		const e: FileEntry = { score: 10, lastAccess: NOW - DAY, visits: [NOW - 120 * DAY, NOW - DAY] };
+		// (10 + 100) / 2 = 55 → 10 * 55 / 25
+		expect(getFirefoxFrecency(e, NOW)).toBe(22);
+	});
+
+	it("falls back to lastAccess when the visit log is empty", () => {
+		const e: FileEntry = { score: 10, lastAccess: NOW - DAY, visits: [] };
+		expect(getFirefoxFrecency(e, NOW)).toBe(40);
+	});
+});
+
 // ---------------------------------------------------------------------------
 // applyAging tests
 // ---------------------------------------------------------------------------
@@ -67,7 +162,7 @@ describe("getFrecency", () => {
 function makeFiles(...scores: number[]): Record<string, import("../src/types").FileEntry> {
 	const files: Record<string, import("../src/types").FileEntry> = {};
 	scores.forEach((score, i) => {
-		files[`note${i}.md`] = { score, lastAccess: NOW };
+		files[`note${i}.md`] = { score, lastAccess: NOW, visits: [NOW] };
 	});
 	return files;
 }
@@ -110,4 +205,24 @@ describe("applyAging", () => {
 		expect(total).toBeCloseTo(1200 * (1000 * 0.9 / 1200), 5); // scale = 900/1200
 		expect(total).toBeLessThan(1000);
 	});
+
+	it("trims visit logs to visitLogSize when given", () => {
+		const files = makeFiles(10);
+		files["note0.md"]!.visits = [1, 2, 3, 4, 5];
+		applyAging(files, 100, { visitLogSize: 2 });
+		expect(files["note0.md"]?.visits).toEqual([4, 5]);
+	});
+
+	it("leaves visit logs alone when no cap is given", () => {
+		const files = makeFiles(100, 100);
+		files["note0.md"]!.visits = [1, 2, 3];
+		applyAging(files, 100);
+		expect(files["note0.md"]?.visits).toEqual([1, 2, 3]);
+	});
+
+	it("never prunes paths in keep", () => {
+		const files = makeFiles(1000, 1);
+		applyAging(files, 100, { keep: new Set(["note1.md"]) });
+		expect(files["note1.md"]?.score).toBeLessThan(1);
+	});
 });
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const { groupEntries, normalizeGroupMode } = await import("../src/grouping");
+
+// Wednesday 10 January 2024, 15:00 local time.
+const NOW = new Date(2024, 0, 10, 15).getTime();
+
+function item(path: string, lastAccess: number) {
+	return { path, entry: { score: 1, lastAccess, visits: [lastAccess] }, frecency: 1 };
+}
+
+describe("groupEntries", () => {
+	it("returns a single group when grouping is off", () => {
+		const items = [item("a.md", NOW), item("b.md", NOW)];
+		expect(groupEntries(items, "none", NOW)).toEqual([{ key: "all", label: "", items }]);
+	});
+
+	it("buckets by calendar day of the last access", () => {
+		const items = [
+			item("old.md",   new Date(2023, 11, 1).getTime()),
+			item("today.md", new Date(2024, 0, 10, 0, 5).getTime()),
+			item("yday.md",  new Date(2024, 0, 9, 23, 59).getTime()),
+			item("week.md",  new Date(2024, 0, 4, 8).getTime()),
+			item("older.md", new Date(2024, 0, 3, 23).getTime()),
+		];
+		const groups = groupEntries(items, "recency", NOW);
+		expect(groups.map(g => [g.label, g.items.map(i => i.path)])).toEqual([
+			["Today",     ["today.md"]],
+			["Yesterday", ["yday.md"]],
+			["This week", ["week.md"]],
+			["Older",     ["old.md", "older.md"]],
+		]);
+	});
+
+	it("drops empty recency groups", () => {
+		const groups = groupEntries([item("a.md", NOW)], "recency", NOW);
+		expect(groups.map(g => g.key)).toEqual(["today"]);
+	});
+
+	it("groups by parent folder in order of each folder's top note", () => {
+		const items = [item("work/a.md", NOW), item("b.md", NOW), item("work/c.md", NOW), item("work/sub/d.md", NOW)];
+		const groups = groupEntries(items, "folder", NOW);
+		expect(groups.map(g => [g.key, g.label, g.items.map(i => i.path)])).toEqual([
+			["work",     "work",     ["work/a.md", "work/c.md"]],
+			["",         "/",        ["b.md"]],
+			["work/sub", "work/sub", ["work/sub/d.md"]],
+		]);
+	});
+});
+
+describe("normalizeGroupMode", () => {
+	it("falls back to no grouping", () => {
+		expect(normalizeGroupMode("folder")).toBe("folder");
+		expect(normalizeGroupMode("bogus")).toBe("none");
+		expect(normalizeGroupMode(undefined)).toBe("none");
+	});
+});
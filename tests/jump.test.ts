@@ -0,0 +1,40 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const { parsePaneType, pickJumpTarget } = await import("../src/jump");
+
+const ranked = [
+	{ path: "Projects/Plan.md",     frecency: 10 },
+	{ path: "Archive/Old plan.md",  frecency: 3 },
+	{ path: "Notes/Plants.md",      frecency: 2 },
+];
+
+describe("pickJumpTarget", () => {
+	it("jumps to a match that clearly leads", () => {
+		expect(pickJumpTarget("plan", ranked)).toBe("Projects/Plan.md");
+	});
+
+	it("jumps to the only match, however low it ranks", () => {
+		expect(pickJumpTarget("notes pla", ranked)).toBe("Notes/Plants.md");
+	});
+
+	it("gives up when the runner-up is close", () => {
+		expect(pickJumpTarget("pla", ranked.slice(1))).toBeNull();
+	});
+
+	it("gives up without a match, keywords or on a folder query", () => {
+		expect(pickJumpTarget("missing", ranked)).toBeNull();
+		expect(pickJumpTarget("  ", ranked)).toBeNull();
+		expect(pickJumpTarget("projects/", ranked)).toBeNull();
+	});
+});
+
+describe("parsePaneType", () => {
+	it("accepts Obsidian's pane types and ignores anything else", () => {
+		expect(parsePaneType("tab")).toBe("tab");
+		expect(parsePaneType("window")).toBe("window");
+		expect(parsePaneType("current")).toBeUndefined();
+		expect(parsePaneType(undefined)).toBeUndefined();
+	});
+});
@@ -6,9 +6,12 @@ const { ZoxidianSearchModal } = await import("../src/modal");
 const { TFile } = await import("obsidian");
 
 function makeModal(overrides?: {
-	excludePaths?: string;
+	excludedPrefix?: string;
 	unresolvedLinks?: Record<string, Record<string, number>>;
-}) {
+	pinned?: string[];
+	trackSections?: boolean;
+	tracked?: string[];
+}, options?: Record<string, unknown>) {
 	const app = {
 		vault: {
 			getMarkdownFiles: () => [new (TFile as any)("Existing.md"), new (TFile as any)("Tracked.md")],
@@ -41,21 +44,34 @@ function makeModal(overrides?: {
 	};
 
 	const plugin = {
-		getSortedEntries: () => ([{
-			path: "Tracked.md",
-			entry: { score: 1, lastAccess: 1 },
-			frecency: 1,
-		}]),
+		getSortedEntries: () => (overrides?.tracked ?? ["Tracked.md"]).map((path, i) => ({
+			path,
+			entry: { score: 1, lastAccess: 1, visits: [1] },
+			frecency: 1 - i / 1000,
+		})),
+		isExcluded: (path: string) => !!overrides?.excludedPrefix && path.startsWith(overrides.excludedPrefix),
+		getPinnedEntries: () => (overrides?.pinned ?? []).map(path => ({
+			path,
+			entry: { score: 0, lastAccess: 0, visits: [] },
+			frecency: 0,
+		})),
+		getSectionEntries: () => ([
+			{ path: "Tracked.md", subpath: "Goals", entry: { score: 2, lastAccess: 1, visits: [1] }, frecency: 2 },
+		]),
+		getFolderRanking: () => ([
+			{ path: "Folder", frecency: 2, score: 1, noteCount: 1, topNote: "Folder/Note.md" },
+		]),
 		settings: {
 			includeUntrackedInModal: true,
-			excludePaths: overrides?.excludePaths ?? "",
 			openInNewTab: false,
 			showFrecencyBadge: true,
 			showScoreBadge: false,
+			queryMode: "fuzzy",
+			trackSections: overrides?.trackSections ?? false,
 		},
 	};
 
-	return new ZoxidianSearchModal(app as any, plugin as any);
+	return new ZoxidianSearchModal(app as any, plugin as any, options as any);
 }
 
 describe("ZoxidianSearchModal.getSuggestions", () => {
@@ -77,8 +93,8 @@ describe("ZoxidianSearchModal.getSuggestions", () => {
 		expect(ghost?.untracked).toBe(true);
 	});
 
-	it("respects excludePaths for missing entries", () => {
-		const modal = makeModal({ excludePaths: "^Folder/" });
+	it("respects exclusion rules for missing entries", () => {
+		const modal = makeModal({ excludedPrefix: "Folder/" });
 
 		const results = modal.getSuggestions("");
 		const paths = results.map(r => r.path);
@@ -88,3 +104,113 @@ describe("ZoxidianSearchModal.getSuggestions", () => {
 		expect(paths).not.toContain("Folder/Ghost.md");
 	});
 });
+
+describe("ZoxidianSearchModal pinned notes", () => {
+	it("lists pinned notes first on an empty query, without duplicates", () => {
+		const modal = makeModal({ pinned: ["Existing.md"] });
+
+		const results = modal.getSuggestions("");
+
+		expect(results[0]).toMatchObject({ path: "Existing.md", pinned: true });
+		expect(results.filter(r => r.path === "Existing.md")).toHaveLength(1);
+	});
+
+	it("ranks pinned notes normally once there is a query", () => {
+		const modal = makeModal({ pinned: ["Existing.md"] });
+
+		const results = modal.getSuggestions("Tracked");
+
+		expect(results[0]?.path).toBe("Tracked.md");
+		expect(results.some(r => r.pinned)).toBe(false);
+	});
+});
+
+describe("ZoxidianSearchModal zoxide query mode", () => {
+	it("matches keywords against the note name", () => {
+		const modal = makeModal();
+		(modal as any).mode = "zoxide";
+
+		const results = modal.getSuggestions("ghost");
+
+		expect(results.map(r => r.path)).toEqual(["Folder/Ghost.md"]);
+		expect(results[0]?.matches).toEqual([[7, 12]]);
+	});
+
+	it("returns only folders for a trailing slash", () => {
+		const modal = makeModal();
+		(modal as any).mode = "zoxide";
+
+		const results = modal.getSuggestions("fold/");
+
+		expect(results.map(r => r.path)).toEqual(["Folder"]);
+		expect(results[0]?.folder).toBe(true);
+	});
+
+	it("registers Tab to toggle between query modes", () => {
+		const modal = makeModal();
+		const registered = (modal as any).scope.register.mock.calls.map((c: any[]) => c[1]);
+
+		expect(registered).toContain("Tab");
+	});
+});
+
+describe("ZoxidianSearchModal options", () => {
+	it("pre-fills the query and starts in the given mode", () => {
+		const modal = makeModal(undefined, { query: "ghost", queryMode: "zoxide" });
+		const input = modal.inputEl as any;
+		input.dispatchEvent = mock(() => true);
+
+		modal.onOpen();
+
+		expect(input.value).toBe("ghost");
+		expect(input.dispatchEvent).toHaveBeenCalledTimes(1);
+		expect(modal.getSuggestions("ghost").map(r => r.path)).toEqual(["Folder/Ghost.md"]);
+	});
+
+	it("opens in the requested pane unless a modifier overrides it", () => {
+		const modal = makeModal(undefined, { paneType: "split" });
+		const getLeaf = (modal as any).app.workspace.getLeaf;
+
+		(modal as any).pickLeaf({ ctrlKey: false, metaKey: false, altKey: false });
+		(modal as any).pickLeaf({ ctrlKey: true, metaKey: false, altKey: false });
+
+		expect(getLeaf.mock.calls.map((c: any[]) => c[0])).toEqual(["split", "tab"]);
+	});
+});
+
+describe("ZoxidianSearchModal sections", () => {
+	it("lists tracked sections by frecency when section tracking is on", () => {
+		expect(makeModal().getSuggestions("").some(r => r.section)).toBe(false);
+
+		const results = makeModal({ trackSections: true }).getSuggestions("");
+		expect(results[0]).toMatchObject({ path: "Tracked.md#Goals", section: true });
+		expect(results.map(r => r.path)).toContain("Tracked.md");
+	});
+
+	it("opens the note scrolled to the chosen section", () => {
+		const modal = makeModal({ trackSections: true });
+		const openFile = mock(async () => {});
+		const app = (modal as any).app;
+		app.vault.getAbstractFileByPath = (path: string) => new (TFile as any)(path);
+		app.workspace.getLeaf = mock(() => ({ openFile }));
+		app.workspace.getMostRecentLeaf = mock(() => null);
+
+		modal.onChooseSuggestion(modal.getSuggestions("")[0] as any, { ctrlKey: true } as any);
+
+		expect(openFile).toHaveBeenCalledWith(expect.objectContaining({ path: "Tracked.md" }), { eState: { subpath: "#Goals" } });
+	});
+});
+
+describe("ZoxidianSearchModal long lists", () => {
+	it("renders a bounded number of rows and reaches lower-ranked notes by query", () => {
+		const tracked = Array.from({ length: 150 }, (_, i) => `Note ${i + 1}.md`);
+		const modal = makeModal({ tracked }, { queryMode: "zoxide" });
+
+		const results = modal.getSuggestions("140");
+		const reached = results.map(r => r.path).indexOf("Note 140.md");
+
+		expect(modal.limit).toBe(100);
+		expect(reached).toBeGreaterThanOrEqual(0);
+		expect(reached).toBeLessThan(modal.limit);
+	});
+});
@@ -7,8 +7,14 @@ void mock.module("obsidian", () => ({
 	FileView: class {
 		file: any = null;
 	},
+	MarkdownView: class {},
 	Menu: class {},
 	Modal: class {},
+	FuzzySuggestModal: class {
+		app: any;
+		constructor(app: any) { this.app = app; }
+		setPlaceholder() { return this; }
+	},
 	Plugin: class {},
 	SuggestModal: class {
 		app: any;
@@ -19,6 +25,7 @@ void mock.module("obsidian", () => ({
 			this.inputEl = { value: "" };
 			this.scope = { register: mock(() => {}) };
 		}
+		onOpen() {}
 		setPlaceholder() { return this; }
 		setInstructions() { return this; }
 	},
@@ -26,6 +33,12 @@ void mock.module("obsidian", () => ({
 		path: string;
 		constructor(path: string) { this.path = path; }
 	},
+	TFolder: class {
+		path: string;
+		constructor(path: string) { this.path = path; }
+	},
+	TAbstractFile: class {},
+	View: class {},
 	WorkspaceLeaf: class {},
 	PluginSettingTab: class {},
 	Setting: class {
@@ -33,11 +46,16 @@ void mock.module("obsidian", () => ({
 		setDesc()  { return this; }
 		addText()  { return this; }
 		addToggle(){ return this; }
+		addDropdown(){ return this; }
+		addSlider(){ return this; }
 		addButton(){ return this; }
+		addExtraButton(){ return this; }
+		setClass() { return this; }
 		setHeading(){ return this; }
 	},
 	prepareFuzzySearch: () => () => ({ matches: [] }),
 	renderMatches: () => {},
 	Notice: class { constructor(_msg: string) {} },
 	normalizePath: (path: string) => path,
+	getAllTags: (cache: { tags?: Array<{ tag: string }> }) => (cache.tags ?? []).map(t => t.tag),
 }));
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const { renamePins, removePins, movePin, normalizePins } = await import("../src/pins");
+
+describe("renamePins", () => {
+	it("follows a note rename in place", () => {
+		const pins = ["a.md", "b.md"];
+		expect(renamePins(pins, "a.md", "c.md")).toBe(true);
+		expect(pins).toEqual(["c.md", "b.md"]);
+	});
+
+	it("moves every pin below a renamed folder", () => {
+		const pins = ["dir/a.md", "dir/sub/b.md", "dirt.md"];
+		renamePins(pins, "dir", "moved");
+		expect(pins).toEqual(["moved/a.md", "moved/sub/b.md", "dirt.md"]);
+	});
+
+	it("drops a pin that lands on an existing pin", () => {
+		const pins = ["b.md", "a.md"];
+		renamePins(pins, "a.md", "b.md");
+		expect(pins).toEqual(["b.md"]);
+	});
+
+	it("reports no change for unpinned paths", () => {
+		expect(renamePins(["a.md"], "x.md", "y.md")).toBe(false);
+	});
+});
+
+describe("removePins", () => {
+	it("removes a deleted note and notes below a deleted folder", () => {
+		const pins = ["a.md", "dir/b.md", "c.md"];
+		expect(removePins(pins, "dir")).toBe(true);
+		expect(removePins(pins, "a.md")).toBe(true);
+		expect(pins).toEqual(["c.md"]);
+		expect(removePins(pins, "missing.md")).toBe(false);
+	});
+});
+
+describe("movePin", () => {
+	it("moves a pin to the given index", () => {
+		const pins = ["a.md", "b.md", "c.md"];
+		expect(movePin(pins, "c.md", 0)).toBe(true);
+		expect(pins).toEqual(["c.md", "a.md", "b.md"]);
+	});
+
+	it("clamps the index and ignores unpinned paths", () => {
+		const pins = ["a.md", "b.md"];
+		movePin(pins, "a.md", 10);
+		expect(pins).toEqual(["b.md", "a.md"]);
+		expect(movePin(pins, "x.md", 0)).toBe(false);
+	});
+});
+
+describe("normalizePins", () => {
+	it("keeps unique non-empty strings", () => {
+		expect(normalizePins(["a.md", 3, "", "a.md", "b.md"])).toEqual(["a.md", "b.md"]);
+		expect(normalizePins(null)).toEqual([]);
+	});
+});
@@ -2,8 +2,10 @@ import { mock, describe, it, expect } from "bun:test";
 import "./obsidian-mock";
 
 // Dynamic imports so the mock is registered before any module loads.
-const { default: ZoxidianPlugin } = await import("../src/main");
+const { default: ZoxidianPlugin, EDIT_SESSION_GAP_MS } = await import("../src/main");
 const { DEFAULT_SETTINGS } = await import("../src/settings");
+const { defaultProfiles } = await import("../src/profiles");
+const { TFile } = await import("obsidian");
 
 // ---------------------------------------------------------------------------
 // Test-instance factory
@@ -15,14 +17,17 @@ function makePlugin() {
 	const plugin = new (ZoxidianPlugin as any)() as any;
 	// Seed with safe defaults; tests override as needed.
 	plugin.files          = {};
+	plugin.pinned         = [];
 	plugin.openPathCounts = new Map<string, number>();
+	plugin.lastEditAt     = new Map<string, number>();
 	// debouncedPersist is assigned in onload(), so we must supply it here.
 	plugin.debouncedPersist = mock(() => {});
 	// Override async persistData so it never touches Obsidian's saveData().
 	plugin.persistData    = mock(async () => {});
 	plugin.redrawViews    = mock(() => {});
 	plugin.notifyRenameInViews = mock(() => {});
-	plugin.settings       = { ...DEFAULT_SETTINGS };
+	plugin.settings       = { ...DEFAULT_SETTINGS, profiles: defaultProfiles() };
+	plugin.app            = { workspace: { trigger: mock(() => {}) } };
 	return plugin;
 }
 
@@ -39,7 +44,7 @@ describe("recordVisit", () => {
 
 		plugin.recordVisit({ path: "a.md" } as any, false);
 
-		expect(plugin.files["a.md"]).toEqual({ score: 1, lastAccess: 1234 });
+		expect(plugin.files["a.md"]).toEqual({ score: 1, lastAccess: 1234, visits: [1234], opens: 1 });
 		expect(plugin.debouncedPersist).toHaveBeenCalledTimes(1);
 		expect(plugin.redrawViews).toHaveBeenCalledTimes(1);
 		(Date as any).now = realNow;
@@ -47,7 +52,7 @@ describe("recordVisit", () => {
 
 	it("updates an existing entry", () => {
 		const plugin = makePlugin();
-		plugin.files["a.md"] = { score: 2, lastAccess: 1000 };
+		plugin.files["a.md"] = { score: 2, lastAccess: 1000, visits: [1000] };
 
 		plugin.recordVisit({ path: "a.md" } as any, false);
 
@@ -55,21 +60,42 @@ describe("recordVisit", () => {
 		expect(plugin.files["a.md"]?.lastAccess).toBeGreaterThanOrEqual(1000);
 	});
 
+	it("appends to the visit log and drops the oldest visit at the cap", () => {
+		const plugin = makePlugin();
+		plugin.settings.visitLogSize = 2;
+		plugin.files["a.md"] = { score: 2, lastAccess: 2000, visits: [1000, 2000] };
+
+		plugin.recordVisit({ path: "a.md" } as any, false);
+
+		const visits = plugin.files["a.md"]?.visits;
+		expect(visits?.length).toBe(2);
+		expect(visits?.[0]).toBe(2000);
+		expect(visits?.[1]).toBe(plugin.files["a.md"]?.lastAccess);
+	});
+
 	it("skips increment when file was already open and recordOnEveryVisit is off", () => {
 		const plugin = makePlugin();
 		plugin.settings.recordOnEveryVisit = false;
-		plugin.files["a.md"] = { score: 2, lastAccess: 1000 };
+		plugin.files["a.md"] = { score: 2, lastAccess: 1000, visits: [1000] };
 
 		plugin.recordVisit({ path: "a.md" } as any, true);
 
-		expect(plugin.files["a.md"]).toEqual({ score: 2, lastAccess: 1000 });
+		expect(plugin.files["a.md"]).toEqual({ score: 2, lastAccess: 1000, visits: [1000] });
 		expect(plugin.debouncedPersist).not.toHaveBeenCalled();
 	});
 
+	it("returns whether the visit was counted", () => {
+		const plugin = makePlugin();
+		plugin.settings.recordOnEveryVisit = false;
+
+		expect(plugin.recordVisit({ path: "a.md" } as any, true)).toBe(false);
+		expect(plugin.recordVisit({ path: "a.md" } as any, false)).toBe(true);
+	});
+
 	it("increments when file was already open and recordOnEveryVisit is on", () => {
 		const plugin = makePlugin();
 		plugin.settings.recordOnEveryVisit = true;
-		plugin.files["a.md"] = { score: 2, lastAccess: 1000 };
+		plugin.files["a.md"] = { score: 2, lastAccess: 1000, visits: [1000] };
 
 		plugin.recordVisit({ path: "a.md" } as any, true);
 
@@ -78,6 +104,62 @@ describe("recordVisit", () => {
 	});
 });
 
+// ---------------------------------------------------------------------------
+// recordEdit
+// ---------------------------------------------------------------------------
+
+describe("recordEdit", () => {
+	it("adds the edit weight and counts the edit separately", () => {
+		const plugin = makePlugin();
+		plugin.settings.trackEdits = true;
+		plugin.settings.editWeight = 0.5;
+		plugin.files["a.md"] = { score: 2, lastAccess: 1000, visits: [1000], opens: 2 };
+
+		expect(plugin.recordEdit({ path: "a.md" } as any)).toBe(true);
+
+		expect(plugin.files["a.md"]).toMatchObject({ score: 2.5, opens: 2, edits: 1 });
+		expect(plugin.debouncedPersist).toHaveBeenCalledTimes(1);
+	});
+
+	it("counts a burst of edits once", () => {
+		const plugin = makePlugin();
+		plugin.settings.trackEdits = true;
+		plugin.files["a.md"] = { score: 2, lastAccess: 1000, visits: [1000] };
+
+		plugin.recordEdit({ path: "a.md" } as any);
+		plugin.recordEdit({ path: "a.md" } as any);
+		plugin.recordEdit({ path: "a.md" } as any);
+
+		expect(plugin.files["a.md"]?.edits).toBe(1);
+	});
+
+	it("counts a new session after the quiet period", () => {
+		const plugin = makePlugin();
+		plugin.settings.trackEdits = true;
+		plugin.files["a.md"] = { score: 2, lastAccess: 1000, visits: [1000] };
+		const realNow = Date.now;
+
+		(Date as any).now = () => 1_000_000;
+		plugin.recordEdit({ path: "a.md" } as any);
+		(Date as any).now = () => 1_000_000 + EDIT_SESSION_GAP_MS;
+		plugin.recordEdit({ path: "a.md" } as any);
+		(Date as any).now = realNow;
+
+		expect(plugin.files["a.md"]?.edits).toBe(2);
+	});
+
+	it("ignores untracked notes and the off switch", () => {
+		const plugin = makePlugin();
+		plugin.settings.trackEdits = true;
+		expect(plugin.recordEdit({ path: "new.md" } as any)).toBe(false);
+		expect(plugin.files["new.md"]).toBeUndefined();
+
+		plugin.settings.trackEdits = false;
+		plugin.files["a.md"] = { score: 2, lastAccess: 1000, visits: [1000] };
+		expect(plugin.recordEdit({ path: "a.md" } as any)).toBe(false);
+	});
+});
+
 // ---------------------------------------------------------------------------
 // handleRename
 // ---------------------------------------------------------------------------
@@ -85,27 +167,27 @@ describe("recordVisit", () => {
 describe("handleRename", () => {
 	it("migrates entry to newPath and removes oldPath", () => {
 		const plugin = makePlugin();
-		plugin.files["a.md"] = { score: 5, lastAccess: 1000 };
+		plugin.files["a.md"] = { score: 5, lastAccess: 1000, visits: [1000] };
 
 		plugin.handleRename("a.md", "b.md");
 
-		expect(plugin.files["b.md"]).toEqual({ score: 5, lastAccess: 1000 });
+		expect(plugin.files["b.md"]).toEqual({ score: 5, lastAccess: 1000, visits: [1000] });
 		expect(plugin.files["a.md"]).toBeUndefined();
 	});
 
 	it("is a no-op when oldPath is not tracked", () => {
 		const plugin = makePlugin();
-		plugin.files["other.md"] = { score: 3, lastAccess: 500 };
+		plugin.files["other.md"] = { score: 3, lastAccess: 500, visits: [500] };
 
 		plugin.handleRename("missing.md", "b.md");
 
 		expect(plugin.files["b.md"]).toBeUndefined();
-		expect(plugin.files["other.md"]).toEqual({ score: 3, lastAccess: 500 });
+		expect(plugin.files["other.md"]).toEqual({ score: 3, lastAccess: 500, visits: [500] });
 	});
 
 	it("moves oldPath open-count to newPath when oldPath was open", () => {
 		const plugin = makePlugin();
-		plugin.files["a.md"] = { score: 1, lastAccess: 1 };
+		plugin.files["a.md"] = { score: 1, lastAccess: 1, visits: [1] };
 		plugin.openPathCounts.set("a.md", 1);
 
 		plugin.handleRename("a.md", "b.md");
@@ -116,7 +198,7 @@ describe("handleRename", () => {
 
 	it("does NOT add newPath open-count when oldPath was absent", () => {
 		const plugin = makePlugin();
-		plugin.files["a.md"] = { score: 1, lastAccess: 1 };
+		plugin.files["a.md"] = { score: 1, lastAccess: 1, visits: [1] };
 		// openPathCounts does NOT contain "a.md"
 
 		plugin.handleRename("a.md", "b.md");
@@ -126,8 +208,8 @@ describe("handleRename", () => {
 
 	it("adds old and new open-counts when both paths are open", () => {
 		const plugin = makePlugin();
-		plugin.files["a.md"] = { score: 1, lastAccess: 1 };
-		plugin.files["b.md"] = { score: 1, lastAccess: 1 };
+		plugin.files["a.md"] = { score: 1, lastAccess: 1, visits: [1] };
+		plugin.files["b.md"] = { score: 1, lastAccess: 1, visits: [1] };
 		plugin.openPathCounts.set("a.md", 2);
 		plugin.openPathCounts.set("b.md", 1);
 
@@ -139,8 +221,8 @@ describe("handleRename", () => {
 
 	it("merges scores when newPath already has an entry", () => {
 		const plugin = makePlugin();
-		plugin.files["a.md"] = { score: 3, lastAccess: 2000 };
-		plugin.files["b.md"] = { score: 7, lastAccess: 1000 };
+		plugin.files["a.md"] = { score: 3, lastAccess: 2000, visits: [2000] };
+		plugin.files["b.md"] = { score: 7, lastAccess: 1000, visits: [1000] };
 
 		plugin.handleRename("a.md", "b.md");
 
@@ -149,17 +231,27 @@ describe("handleRename", () => {
 
 	it("takes Math.max(lastAccess) when merging", () => {
 		const plugin = makePlugin();
-		plugin.files["a.md"] = { score: 3, lastAccess: 9000 };
-		plugin.files["b.md"] = { score: 7, lastAccess: 1000 };
+		plugin.files["a.md"] = { score: 3, lastAccess: 9000, visits: [9000] };
+		plugin.files["b.md"] = { score: 7, lastAccess: 1000, visits: [1000] };
 
 		plugin.handleRename("a.md", "b.md");
 
 		expect(plugin.files["b.md"]?.lastAccess).toBe(9000);
 	});
 
+	it("interleaves both visit logs when merging", () => {
+		const plugin = makePlugin();
+		plugin.files["a.md"] = { score: 2, lastAccess: 3000, visits: [1000, 3000] };
+		plugin.files["b.md"] = { score: 2, lastAccess: 4000, visits: [2000, 4000] };
+
+		plugin.handleRename("a.md", "b.md");
+
+		expect(plugin.files["b.md"]?.visits).toEqual([1000, 2000, 3000, 4000]);
+	});
+
 	it("calls debouncedPersist (not persistData) after rename", () => {
 		const plugin = makePlugin();
-		plugin.files["a.md"] = { score: 1, lastAccess: 1 };
+		plugin.files["a.md"] = { score: 1, lastAccess: 1, visits: [1] };
 
 		plugin.handleRename("a.md", "b.md");
 
@@ -169,7 +261,7 @@ describe("handleRename", () => {
 
 	it("notifies views before redraw after rename", () => {
 		const plugin = makePlugin();
-		plugin.files["a.md"] = { score: 1, lastAccess: 1 };
+		plugin.files["a.md"] = { score: 1, lastAccess: 1, visits: [1] };
 		const callOrder: string[] = [];
 		plugin.notifyRenameInViews = mock((_o: string, _n: string) => { callOrder.push("notify"); });
 		plugin.redrawViews = mock(() => { callOrder.push("redraw"); });
@@ -182,6 +274,45 @@ describe("handleRename", () => {
 	});
 });
 
+// ---------------------------------------------------------------------------
+// handleFolderRename
+// ---------------------------------------------------------------------------
+
+describe("handleFolderRename", () => {
+	it("moves notes and folder visits below the old folder", () => {
+		const plugin = makePlugin();
+		plugin.files["old/a.md"]     = { score: 2, lastAccess: 1, visits: [1] };
+		plugin.files["old/sub/b.md"] = { score: 3, lastAccess: 1, visits: [1] };
+		plugin.files["older.md"]     = { score: 1, lastAccess: 1, visits: [1] };
+		plugin.folders["old/sub"]    = { score: 1, lastAccess: 1, visits: [1] };
+
+		plugin.handleFolderRename("old", "new");
+
+		expect(Object.keys(plugin.files).sort()).toEqual(["new/a.md", "new/sub/b.md", "older.md"]);
+		expect(Object.keys(plugin.folders)).toEqual(["new/sub"]);
+		expect(plugin.getFolderRanking().find((r: any) => r.path === "new")?.noteCount).toBe(2);
+	});
+
+	it("makes follow-up per-note rename events no-ops", () => {
+		const plugin = makePlugin();
+		plugin.files["old/a.md"] = { score: 2, lastAccess: 1, visits: [1] };
+
+		plugin.handleFolderRename("old", "new");
+		plugin.handleRename("old/a.md", "new/a.md");
+
+		expect(plugin.files["new/a.md"]?.score).toBe(2);
+	});
+
+	it("notifies views about every moved note", () => {
+		const plugin = makePlugin();
+		plugin.files["old/a.md"] = { score: 2, lastAccess: 1, visits: [1] };
+
+		plugin.handleFolderRename("old", "new");
+
+		expect(plugin.notifyRenameInViews).toHaveBeenCalledWith("old/a.md", "new/a.md");
+	});
+});
+
 // ---------------------------------------------------------------------------
 // handleDelete
 // ---------------------------------------------------------------------------
@@ -189,7 +320,7 @@ describe("handleRename", () => {
 describe("handleDelete", () => {
 	it("removes the entry for the given path", () => {
 		const plugin = makePlugin();
-		plugin.files["a.md"] = { score: 5, lastAccess: 1000 };
+		plugin.files["a.md"] = { score: 5, lastAccess: 1000, visits: [1000] };
 
 		plugin.handleDelete("a.md");
 
@@ -198,7 +329,7 @@ describe("handleDelete", () => {
 
 	it("is a no-op (no crash) when path is not tracked", () => {
 		const plugin = makePlugin();
-		plugin.files["other.md"] = { score: 3, lastAccess: 500 };
+		plugin.files["other.md"] = { score: 3, lastAccess: 500, visits: [500] };
 
 		expect(() => plugin.handleDelete("missing.md")).not.toThrow();
 		expect(plugin.files["other.md"]).toBeDefined();
@@ -206,12 +337,536 @@ describe("handleDelete", () => {
 
 	it("calls persistData after deletion", () => {
 		const plugin = makePlugin();
-		plugin.files["a.md"] = { score: 1, lastAccess: 1 };
+		plugin.files["a.md"] = { score: 1, lastAccess: 1, visits: [1] };
+
+		plugin.handleDelete("a.md");
+
+		expect(plugin.persistData).toHaveBeenCalledTimes(1);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Co-visitation
+// ---------------------------------------------------------------------------
+
+describe("transitions", () => {
+	it("records a transition between consecutive counted visits", () => {
+		const plugin = makePlugin();
+		plugin.recordVisit({ path: "a.md" } as any, false);
+		plugin.recordVisit({ path: "b.md" } as any, false);
+		plugin.recordVisit({ path: "b.md" } as any, true);   // ignored tab switch
+		plugin.recordVisit({ path: "a.md" } as any, false);
+
+		expect(plugin.transitions).toEqual({ "a.md": { "b.md": 1 }, "b.md": { "a.md": 1 } });
+	});
+
+	it("follows renames and drops deleted notes", () => {
+		const plugin = makePlugin();
+		plugin.folders = {};
+		plugin.transitions = { "a.md": { "b.md": 2 }, "dir/c.md": { "a.md": 1 } };
+
+		plugin.handleRename("a.md", "z.md");
+		expect(plugin.transitions).toEqual({ "z.md": { "b.md": 2 }, "dir/c.md": { "z.md": 1 } });
+		expect(plugin.persistData).toHaveBeenCalledTimes(1);
+
+		plugin.handleFolderDelete("dir");
+		plugin.handleDelete("b.md");
+		expect(plugin.transitions).toEqual({});
+	});
+
+	it("continues from a renamed previous note", () => {
+		const plugin = makePlugin();
+		plugin.recordVisit({ path: "a.md" } as any, false);
+		plugin.handleRename("a.md", "z.md");
+		plugin.recordVisit({ path: "b.md" } as any, false);
+
+		expect(plugin.transitions).toEqual({ "z.md": { "b.md": 1 } });
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Context boost
+// ---------------------------------------------------------------------------
+
+describe("getLikelyNext", () => {
+	const WEEK_MS = 7 * 86_400_000;
+
+	function withHabits() {
+		const plugin = makePlugin();
+		const now = Date.now();
+		// Same time of day and weekday in each of the last three weeks.
+		const habit = [now - 3 * WEEK_MS, now - 2 * WEEK_MS, now - WEEK_MS];
+		const other = [now - 3.5 * 86_400_000, now - 2.5 * 86_400_000, now - 1.5 * 86_400_000];
+		plugin.files["habit.md"] = { score: 3, lastAccess: habit[2], visits: habit };
+		plugin.files["other.md"] = { score: 3, lastAccess: other[2], visits: other };
+		return plugin;
+	}
+
+	it("is empty while the boost is off", () => {
+		expect(withHabits().getLikelyNext()).toEqual([]);
+	});
+
+	it("lists notes habitually opened at this time and explains why", () => {
+		const plugin = withHabits();
+		plugin.settings.contextStrength = 1;
+
+		expect(plugin.getLikelyNext().map((e: any) => e.path)).toEqual(["habit.md"]);
+		expect(plugin.explainContextBoost(plugin.files["habit.md"])).toContain("3 of 3 visits");
+		expect(plugin.explainContextBoost(plugin.files["other.md"])).toBeNull();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Profiles
+// ---------------------------------------------------------------------------
+
+describe("profiles", () => {
+	it("records visits only into the active profile", () => {
+		const plugin = makePlugin();
+		plugin.recordVisit({ path: "home.md" } as any, false);
+		plugin.createProfile("Work");
+		plugin.recordVisit({ path: "work.md" } as any, false);
+
+		expect(Object.keys(plugin.files)).toEqual(["work.md"]);
+		plugin.switchProfile("default");
+		expect(Object.keys(plugin.files)).toEqual(["home.md"]);
+		expect(plugin.getSortedEntries().map((e: any) => e.path)).toEqual(["home.md"]);
+	});
+
+	it("duplicates a profile's visits without sharing them", () => {
+		const plugin = makePlugin();
+		plugin.files["a.md"] = { score: 2, lastAccess: 1, visits: [1] };
+		const id = plugin.createProfile("Copy", "default");
+
+		expect(plugin.settings.activeProfile).toBe(id);
+		plugin.files["a.md"].score = 9;
+		expect(plugin.getMergedData("default").files["a.md"].score).toBe(2);
+	});
+
+	it("renames and deletes notes in every profile", () => {
+		const plugin = makePlugin();
+		plugin.files["a.md"] = { score: 1, lastAccess: 1, visits: [1] };
+		plugin.files["b.md"] = { score: 1, lastAccess: 1, visits: [1] };
+		plugin.createProfile("Work", "default");
+
+		plugin.handleRename("a.md", "c.md");
+		plugin.handleDelete("b.md");
+
+		for (const id of ["default", plugin.settings.activeProfile]) {
+			expect(Object.keys(plugin.getMergedData(id).files)).toEqual(["c.md"]);
+		}
+	});
+
+	it("deletes a profile and falls back to the default", () => {
+		const plugin = makePlugin();
+		const id = plugin.createProfile("Work");
+		plugin.deleteProfile(id);
+		plugin.deleteProfile("default");
+
+		expect(plugin.settings.activeProfile).toBe("default");
+		expect(Object.keys(plugin.settings.profiles)).toEqual(["default"]);
+	});
+
+	it("ages and trims every profile with its own max age", () => {
+		const plugin = makePlugin();
+		plugin.settings.maxAge = 100;
+		plugin.files["a.md"] = { score: 150, lastAccess: 1, visits: [1, 2, 3] };
+		plugin.sections["a.md#Intro"] = { score: 1, lastAccess: 3, visits: [1, 2, 3] };
+		const id = plugin.createProfile("Work");
+		plugin.settings.profiles[id].overrides.maxAge = 1000;
+		plugin.files["w.md"] = { score: 150, lastAccess: 1, visits: [1, 2, 3] };
+		plugin.folders["Work"] = { score: 1, lastAccess: 3, visits: [1, 2, 3] };
+
+		expect(plugin.previewMaxAge(100)).toEqual({ scaled: true, pruned: 0 });
+		plugin.ageAllProfiles({ visitLogSize: 1 });
+
+		const home = plugin.getMergedData("default");
+		expect(home.files["a.md"]).toEqual({ score: 90, lastAccess: 1, visits: [3] });
+		expect(home.sections["a.md#Intro"].visits).toEqual([3]);
+		expect(plugin.files["w.md"]).toEqual({ score: 150, lastAccess: 1, visits: [3] });
+		expect(plugin.folders["Work"].visits).toEqual([3]);
+	});
+
+	it("applies the active profile's overrides to ranking", () => {
+		const plugin = makePlugin();
+		plugin.files["a.md"] = { score: 1, lastAccess: Date.now(), visits: [Date.now()] };
+		plugin.files["b.md"] = { score: 2, lastAccess: Date.now(), visits: [Date.now()] };
+		plugin.settings.profiles.default.overrides = { maxItems: 1 };
+
+		expect(plugin.getSortedEntries()).toHaveLength(1);
+		expect(plugin.settings.maxItems).toBe(DEFAULT_SETTINGS.maxItems);
+	});
+
+	it("loads old data into the default profile and saves other profiles separately", async () => {
+		const plugin = makePlugin();
+		plugin.loadData = async () => ({ files: { "a.md": { score: 1, lastAccess: 1, visits: [1] } } });
+		await plugin.initData();
+		expect(Object.keys(plugin.files)).toEqual(["a.md"]);
+
+		plugin.createProfile("Work");
+		plugin.files["w.md"] = { score: 1, lastAccess: 1, visits: [1] };
+		let saved: any = null;
+		plugin.saveData = async (data: unknown) => { saved = data; };
+		plugin.persistData = Object.getPrototypeOf(plugin).persistData;
+		await plugin.persistData();
+
+		expect(Object.keys(saved.files)).toEqual(["a.md"]);
+		expect(Object.keys(saved.profileData.work.files)).toEqual(["w.md"]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Exclusion rules
+// ---------------------------------------------------------------------------
+
+describe("exclusion rules", () => {
+	it("migrates the old excludePaths regex into a display rule", () => {
+		const plugin = makePlugin();
+		plugin.applyLoadedSettings({ settings: { excludePaths: "^Daily/" } });
+
+		expect(plugin.settings.exclusionRules).toEqual([
+			{ type: "regex", pattern: "^Daily/", effect: "exclude", scope: "display" },
+		]);
+		expect(plugin.settings.excludePaths).toBeUndefined();
+		expect(plugin.isExcluded("Daily/a.md", "display")).toBe(true);
+		expect(plugin.isExcluded("Daily/a.md", "tracking")).toBe(false);
+	});
+
+	it("does not share the default rule list between loads", () => {
+		const plugin = makePlugin();
+		plugin.applyLoadedSettings(null);
+		plugin.settings.exclusionRules.push({ type: "glob", pattern: "x", effect: "exclude", scope: "both" });
+
+		expect(DEFAULT_SETTINGS.exclusionRules).toEqual([]);
+	});
+
+	it("does not record visits to notes excluded from tracking", () => {
+		const plugin = makePlugin();
+		plugin.settings.exclusionRules = [{ type: "glob", pattern: "private/**", effect: "exclude", scope: "tracking" }];
+		plugin.recompileRules();
+
+		expect(plugin.recordVisit({ path: "private/a.md" } as any, false)).toBe(false);
+		expect(plugin.recordVisit({ path: "public/a.md" } as any, false)).toBe(true);
+		expect(Object.keys(plugin.files)).toEqual(["public/a.md"]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Pinned notes
+// ---------------------------------------------------------------------------
+
+describe("pinned notes", () => {
+	it("pins and unpins, persisting each change", () => {
+		const plugin = makePlugin();
+		plugin.setPinned("a.md", true);
+		plugin.setPinned("a.md", true);
+		expect(plugin.pinned).toEqual(["a.md"]);
+
+		plugin.setPinned("a.md", false);
+		expect(plugin.pinned).toEqual([]);
+		expect(plugin.persistData).toHaveBeenCalledTimes(2);
+	});
+
+	it("keeps pins across renames of untracked notes and folders", () => {
+		const plugin = makePlugin();
+		plugin.folders = {};
+		plugin.pinned  = ["a.md", "dir/b.md"];
+
+		plugin.handleRename("a.md", "c.md");
+		plugin.handleFolderRename("dir", "moved");
+
+		expect(plugin.pinned).toEqual(["c.md", "moved/b.md"]);
+		expect(plugin.persistData).toHaveBeenCalledTimes(2);
+	});
+
+	it("drops pins on delete", () => {
+		const plugin = makePlugin();
+		plugin.folders = {};
+		plugin.pinned  = ["a.md", "dir/b.md", "c.md"];
 
 		plugin.handleDelete("a.md");
+		plugin.handleFolderDelete("dir");
+
+		expect(plugin.pinned).toEqual(["c.md"]);
+	});
+
+	it("never lets aging prune a pinned note", () => {
+		const plugin = makePlugin();
+		plugin.settings.maxAge = 100;
+		plugin.pinned = ["low.md"];
+		plugin.files["low.md"]  = { score: 1, lastAccess: 1, visits: [1] };
+		plugin.files["high.md"] = { score: 1000, lastAccess: 1, visits: [1] };
+
+		plugin.ageFiles();
+
+		expect(plugin.files["low.md"]).toBeDefined();
+	});
+});
 
+// ---------------------------------------------------------------------------
+// Sync-safe storage
+// ---------------------------------------------------------------------------
+
+describe("sync-safe storage", () => {
+	function withShards() {
+		const plugin = makePlugin();
+		plugin.folders      = {};
+		plugin.shardStore   = { deviceId: "local" };
+		plugin.remoteShards = [];
+		return plugin;
+	}
+
+	it("records tombstones for renames and deletes only when enabled", () => {
+		const plain = makePlugin();
+		plain.files["a.md"] = { score: 1, lastAccess: 1, visits: [1] };
+		plain.handleRename("a.md", "b.md");
+		expect(plain.tombstones).toEqual({});
+
+		const plugin = withShards();
+		plugin.handleRename("a.md", "b.md");
+		plugin.handleDelete("c.md");
+		plugin.handleFolderRename("dir", "moved");
+		expect(plugin.tombstones["a.md"]).toMatchObject({ to: "b.md" });
+		expect(plugin.tombstones["c.md"]?.to).toBeUndefined();
+		expect(plugin.tombstones["dir"]).toMatchObject({ to: "moved", folder: true });
+	});
+
+	it("persists a rename of a note only other devices track", () => {
+		const plugin = withShards();
+		plugin.handleRename("a.md", "b.md");
 		expect(plugin.persistData).toHaveBeenCalledTimes(1);
 	});
+
+	it("ranks the merged view of all shards", () => {
+		const plugin = withShards();
+		const now = Date.now();
+		plugin.files["a.md"] = { score: 1, lastAccess: now, visits: [now] };
+		plugin.remoteShards = [{
+			deviceId: "remote", updatedAt: now, resetAt: 0, folders: {}, sections: {}, tombstones: {},
+			files: { "a.md": { score: 2, lastAccess: now, visits: [now] }, "b.md": { score: 1, lastAccess: now, visits: [now] } },
+		}];
+
+		const entries = plugin.getSortedEntries();
+		expect(entries.map((e: any) => e.path)).toEqual(["a.md", "b.md"]);
+		expect(entries[0].entry.score).toBe(3);
+	});
+
+	it("hides removed entries that other devices still have", () => {
+		const plugin = withShards();
+		const now = Date.now() - 1;
+		plugin.remoteShards = [{
+			deviceId: "remote", updatedAt: now, resetAt: 0, folders: {}, sections: {}, tombstones: {},
+			files: { "a.md": { score: 2, lastAccess: now, visits: [now] } },
+		}];
+
+		plugin.removeEntry("a.md");
+
+		expect(plugin.getSortedEntries()).toEqual([]);
+	});
+
+	it("resets a note across devices", () => {
+		const plugin = withShards();
+		const now = Date.now() - 10;
+		plugin.files["a.md"] = { score: 3, lastAccess: now - 5, visits: [now - 5] };
+		plugin.remoteShards = [{
+			deviceId: "remote", updatedAt: now, resetAt: 0, folders: {}, sections: {}, tombstones: {},
+			files: { "a.md": { score: 5, lastAccess: now, visits: [now] } },
+		}];
+
+		plugin.resetEntries(["a.md"]);
+
+		const entries = plugin.getSortedEntries();
+		expect(entries.map((e: any) => e.path)).toEqual(["a.md"]);
+		expect(entries[0].entry.score).toBe(1);
+		expect(entries[0].entry.visits).toHaveLength(1);
+	});
+
+	it("keeps transitions in the shard and merges them with other devices", async () => {
+		const plugin = withShards();
+		plugin.app = { workspace: { trigger: mock(() => {}) }, vault: { getAbstractFileByPath: (p: string) => new (TFile as any)(p) } };
+		plugin.transitions = { "a.md": { "b.md": 1 } };
+		plugin.remoteShards = [{
+			deviceId: "remote", updatedAt: Date.now(), resetAt: 0, files: {}, folders: {}, sections: {}, profileData: {},
+			transitions: { "a.md": { "b.md": 2, "c.md": 1 } }, tombstones: {},
+		}];
+
+		expect(plugin.getSuccessorEntries("a.md").map((e: any) => [e.path, e.count])).toEqual([["b.md", 3], ["c.md", 1]]);
+
+		let saved: any = null;
+		let shard: any = null;
+		plugin.saveData = async (data: unknown) => { saved = data; };
+		plugin.shardStore.writeLocal = async (data: unknown) => { shard = data; };
+		plugin.persistData = Object.getPrototypeOf(plugin).persistData;
+		await plugin.persistData();
+		expect(saved.transitions).toBeUndefined();
+		expect(shard.transitions).toEqual({ "a.md": { "b.md": 1 } });
+	});
+
+	it("keeps the shard's transitions when data.json changes elsewhere", async () => {
+		const plugin = withShards();
+		plugin.shardStore.readAll = async () => ({ local: null, remote: [] });
+		plugin.loadData = async () => ({ settings: { syncShards: true }, pinned: [] });
+		plugin.recordVisit({ path: "a.md" } as any, false);
+		plugin.recordVisit({ path: "b.md" } as any, false);
+
+		await plugin.onExternalSettingsChange();
+
+		expect(plugin.transitions).toEqual({ "a.md": { "b.md": 1 } });
+	});
+
+	it("tombstones the notes a replacing import drops", () => {
+		const plugin = withShards();
+		const now = Date.now() - 1;
+		plugin.files["a.md"] = { score: 1, lastAccess: now, visits: [now] };
+		plugin.remoteShards = [{
+			deviceId: "remote", updatedAt: now, resetAt: 0, folders: {}, sections: {}, tombstones: {},
+			files: { "b.md": { score: 2, lastAccess: now, visits: [now] } },
+		}];
+
+		plugin.importEntries({ "c.md": { score: 3, lastAccess: now, visits: [now] } }, "replace");
+
+		expect(Object.keys(plugin.tombstones).sort()).toEqual(["a.md", "b.md"]);
+		expect(plugin.getSortedEntries().map((e: any) => e.path)).toEqual(["c.md"]);
+	});
+
+	// Real redrawViews with no open views, so visits reach the cached merge.
+	function withMergeCache() {
+		const plugin = withShards();
+		plugin.app = { workspace: { getLeavesOfType: () => [], trigger: mock(() => {}) } };
+		plugin.redrawViews = (ZoxidianPlugin.prototype as any).redrawViews.bind(plugin);
+		const now = Date.now();
+		plugin.files["a.md"] = { score: 1, lastAccess: now, visits: [now] };
+		plugin.remoteShards = [{
+			deviceId: "remote", updatedAt: now, resetAt: 0, folders: {}, sections: {}, tombstones: {},
+			files: { "a.md": { score: 2, lastAccess: now, visits: [now] }, "b.md": { score: 4, lastAccess: now, visits: [now] } },
+		}];
+		plugin.getLocalShard = mock((ZoxidianPlugin.prototype as any).getLocalShard.bind(plugin));
+		return plugin;
+	}
+
+	it("merges the shards once for repeated reads and local visits", () => {
+		const plugin = withMergeCache();
+
+		plugin.getSortedEntries();
+		plugin.getSortedEntries();
+		plugin.recordVisit({ path: "a.md" } as any, false);
+		plugin.recordVisit({ path: "a.md" } as any, false);
+		const entries = plugin.getSortedEntries();
+
+		expect(plugin.getLocalShard).toHaveBeenCalledTimes(1);
+		expect(entries.map((e: any) => e.path)).toEqual(["a.md", "b.md"]);
+		expect(entries[0].entry.score).toBe(5);
+		expect(entries[0].entry.opens).toBe(2);
+		expect(entries[0].entry.visits).toHaveLength(4);
+	});
+
+	it("takes the higher score when patching in max merge mode", () => {
+		const plugin = withMergeCache();
+		plugin.settings.shardMergeMode = "max";
+
+		plugin.getSortedEntries();
+		plugin.recordVisit({ path: "a.md" } as any, false);
+		expect(plugin.getMergedData().files["a.md"].score).toBe(2);
+		plugin.recordVisit({ path: "a.md" } as any, false);
+		expect(plugin.getMergedData().files["a.md"].score).toBe(3);
+		expect(plugin.getLocalShard).toHaveBeenCalledTimes(1);
+	});
+
+	it("merges again after a full redraw or a shard reload", async () => {
+		const plugin = withMergeCache();
+		plugin.shardStore = { deviceId: "local", readAll: async () => ({ local: null, remote: [] }) };
+
+		plugin.getSortedEntries();
+		plugin.redrawViews();
+		plugin.getSortedEntries();
+		expect(plugin.getLocalShard).toHaveBeenCalledTimes(2);
+
+		await plugin.reloadShards();
+		expect(plugin.getSortedEntries().map((e: any) => e.path)).toEqual(["a.md"]);
+		expect(plugin.getLocalShard).toHaveBeenCalledTimes(3);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Bulk actions
+// ---------------------------------------------------------------------------
+
+describe("bulk actions", () => {
+	it("removes several entries with a single save", () => {
+		const plugin = makePlugin();
+		plugin.files = {
+			"a.md": { score: 2, lastAccess: 1000, visits: [1000] },
+			"b.md": { score: 3, lastAccess: 2000, visits: [2000] },
+			"c.md": { score: 1, lastAccess: 3000, visits: [3000] },
+		};
+
+		plugin.removeEntries(["a.md", "b.md", "zzz.md"]);
+
+		expect(Object.keys(plugin.files)).toEqual(["c.md"]);
+		expect(plugin.persistData).toHaveBeenCalledTimes(1);
+		expect(plugin.redrawViews).toHaveBeenCalledTimes(1);
+	});
+
+	it("undoes the last removal", () => {
+		const plugin = makePlugin();
+		const a = { score: 2, lastAccess: 1000, visits: [1000] };
+		plugin.files = { "a.md": a };
+
+		plugin.removeEntries(["a.md"]);
+		expect(plugin.canUndoRemoval()).toBe(true);
+		plugin.undoRemoval();
+
+		expect(plugin.files).toEqual({ "a.md": a });
+		expect(plugin.canUndoRemoval()).toBe(false);
+		expect(plugin.persistData).toHaveBeenCalledTimes(2);
+	});
+
+	it("keeps visits made after the removal when undoing", () => {
+		const plugin = makePlugin();
+		plugin.files = { "a.md": { score: 2, lastAccess: 1000, visits: [1000] } };
+
+		plugin.removeEntries(["a.md"]);
+		plugin.files["a.md"] = { score: 1, lastAccess: 5000, visits: [5000] };
+		plugin.undoRemoval();
+
+		expect(plugin.files["a.md"].score).toBe(3);
+		expect(plugin.files["a.md"].visits).toEqual([1000, 5000]);
+	});
+
+	it("restores tombstones when undoing in shard mode", () => {
+		const plugin = makePlugin();
+		plugin.shardStore = {};
+		plugin.tombstones = {};
+		plugin.files = { "a.md": { score: 2, lastAccess: 1000, visits: [1000] } };
+
+		plugin.removeEntries(["a.md"]);
+		expect(plugin.tombstones["a.md"]).toBeDefined();
+		plugin.undoRemoval();
+
+		expect(plugin.tombstones).toEqual({});
+	});
+
+	it("resets scores to a single visit", () => {
+		const plugin = makePlugin();
+		plugin.files = { "a.md": { score: 9, lastAccess: 4000, visits: [1000, 4000], opens: 7, edits: 2 } };
+
+		plugin.resetEntries(["a.md", "zzz.md"]);
+
+		expect(plugin.files).toEqual({ "a.md": { score: 1, lastAccess: 4000, visits: [4000] } });
+		expect(plugin.persistData).toHaveBeenCalledTimes(1);
+	});
+
+	it("pins and unpins several notes at once", () => {
+		const plugin = makePlugin();
+		plugin.pinned = ["b.md"];
+
+		plugin.setPinnedAll(["a.md", "b.md", "c.md"], true);
+		expect(plugin.pinned).toEqual(["b.md", "a.md", "c.md"]);
+
+		plugin.setPinnedAll(["a.md", "b.md"], false);
+		expect(plugin.pinned).toEqual(["c.md"]);
+		expect(plugin.persistData).toHaveBeenCalledTimes(2);
+	});
 });
 
 // ---------------------------------------------------------------------------
@@ -221,8 +876,8 @@ describe("handleDelete", () => {
 describe("clearData", () => {
 	it("sets files to {}", () => {
 		const plugin = makePlugin();
-		plugin.files["a.md"] = { score: 5, lastAccess: 1000 };
-		plugin.files["b.md"] = { score: 3, lastAccess: 500 };
+		plugin.files["a.md"] = { score: 5, lastAccess: 1000, visits: [1000] };
+		plugin.files["b.md"] = { score: 3, lastAccess: 500, visits: [500] };
 
 		plugin.clearData();
 
@@ -231,7 +886,7 @@ describe("clearData", () => {
 
 	it("calls debouncedPersist after clearing", () => {
 		const plugin = makePlugin();
-		plugin.files["a.md"] = { score: 5, lastAccess: 1000 };
+		plugin.files["a.md"] = { score: 5, lastAccess: 1000, visits: [1000] };
 
 		plugin.clearData();
 
@@ -247,18 +902,19 @@ describe("getSortedEntries", () => {
 	it("returns at most maxItems when applyLimit is true", () => {
 		const plugin = makePlugin();
 		plugin.settings.maxItems = 1;
-		plugin.files["a.md"] = { score: 1, lastAccess: Date.now() };
-		plugin.files["b.md"] = { score: 2, lastAccess: Date.now() };
+		plugin.files["a.md"] = { score: 1, lastAccess: Date.now(), visits: [Date.now()] };
+		plugin.files["b.md"] = { score: 2, lastAccess: Date.now(), visits: [Date.now()] };
 
 		const rows = plugin.getSortedEntries(true);
 
 		expect(rows.length).toBe(1);
 	});
 
-	it("skips exclude filter when regex is invalid", () => {
+	it("skips exclusion rules whose regex is invalid", () => {
 		const plugin = makePlugin();
-		plugin.settings.excludePaths = "[";
-		plugin.files["a.md"] = { score: 1, lastAccess: Date.now() };
+		plugin.settings.exclusionRules = [{ type: "regex", pattern: "[", effect: "exclude", scope: "both" }];
+		plugin.recompileRules();
+		plugin.files["a.md"] = { score: 1, lastAccess: Date.now(), visits: [Date.now()] };
 
 		const rows = plugin.getSortedEntries(true);
 
@@ -266,14 +922,306 @@ describe("getSortedEntries", () => {
 		expect(rows[0]?.path).toBe("a.md");
 	});
 
-	it("filters paths matching exclude regex", () => {
+	it("filters paths matching a display exclusion rule", () => {
 		const plugin = makePlugin();
-		plugin.settings.excludePaths = "^Daily/";
-		plugin.files["Daily/note.md"] = { score: 5, lastAccess: Date.now() };
-		plugin.files["Work/note.md"] = { score: 5, lastAccess: Date.now() };
+		plugin.settings.exclusionRules = [{ type: "regex", pattern: "^Daily/", effect: "exclude", scope: "display" }];
+		plugin.recompileRules();
+		plugin.files["Daily/note.md"] = { score: 5, lastAccess: Date.now(), visits: [Date.now()] };
+		plugin.files["Work/note.md"] = { score: 5, lastAccess: Date.now(), visits: [Date.now()] };
 
 		const rows = plugin.getSortedEntries(false);
 
 		expect(rows.map((r: any) => r.path)).toEqual(["Work/note.md"]);
 	});
+
+	it("ranks through the configured scoring strategy", () => {
+		const plugin = makePlugin();
+		const now = Date.now();
+		// zoxide: old.md → 40 / 4 = 10, fresh.md → 2 * 4 = 8
+		// decay (1h half-life): old.md decays to ~0 over a week
+		plugin.files["old.md"]   = { score: 40, lastAccess: now - 8 * 86_400_000, visits: [now - 8 * 86_400_000] };
+		plugin.files["fresh.md"] = { score: 2,  lastAccess: now, visits: [now] };
+
+		plugin.settings.scoringStrategy = "zoxide";
+		expect(plugin.getSortedEntries(false).map((r: any) => r.path)).toEqual(["old.md", "fresh.md"]);
+
+		plugin.settings.scoringStrategy = "decay";
+		plugin.settings.halfLifeHours = 1;
+		expect(plugin.getSortedEntries(false)[0]?.path).toBe("fresh.md");
+	});
+});
+
+describe("ranked index", () => {
+	// Real redrawViews with no open views, so visits reach the index.
+	function withIndex() {
+		const plugin = makePlugin();
+		plugin.app = { workspace: { getLeavesOfType: () => [], trigger: mock(() => {}) } };
+		plugin.redrawViews = (ZoxidianPlugin.prototype as any).redrawViews.bind(plugin);
+		const now = Date.now();
+		plugin.files = {
+			"a.md": { score: 3, lastAccess: now, visits: [now] },
+			"b.md": { score: 2, lastAccess: now, visits: [now] },
+		};
+		return plugin;
+	}
+
+	it("re-ranks a visited note without rebuilding", () => {
+		const plugin = withIndex();
+		plugin.getSortedEntries();
+		const rebuild = mock(plugin.ranking.rebuild.bind(plugin.ranking));
+		plugin.ranking.rebuild = rebuild;
+
+		plugin.recordVisit({ path: "b.md" } as any, false);
+		plugin.recordVisit({ path: "b.md" } as any, false);
+		plugin.recordVisit({ path: "c.md" } as any, false);
+
+		expect(plugin.getSortedEntries().map((r: any) => r.path)).toEqual(["b.md", "a.md", "c.md"]);
+		expect(rebuild).not.toHaveBeenCalled();
+	});
+
+	it("rebuilds after any other change", () => {
+		const plugin = withIndex();
+		plugin.getSortedEntries();
+
+		plugin.files["c.md"] = { score: 9, lastAccess: Date.now(), visits: [Date.now()] };
+		plugin.redrawViews();
+
+		expect(plugin.getSortedEntries()[0]?.path).toBe("c.md");
+	});
+
+	it("rebuilds when the active profile changes", () => {
+		const plugin = withIndex();
+		plugin.dwell = { stop: mock(() => {}) };
+		plugin.getSortedEntries();
+
+		plugin.createProfile("Work");
+		plugin.switchProfile("work");
+
+		expect(plugin.getSortedEntries()).toEqual([]);
+	});
+
+	it("re-ranks a note once a tag rule starts matching it", () => {
+		const plugin = withIndex();
+		const tags: Record<string, string[]> = {};
+		plugin.app.metadataCache = { getCache: (path: string) => ({ tags: (tags[path] ?? []).map(tag => ({ tag })) }) };
+		plugin.settings.exclusionRules = [{ type: "tag", pattern: "#private", effect: "exclude", scope: "display" }];
+		plugin.recompileRules();
+		plugin.getSortedEntries();
+
+		tags["a.md"] = ["#private"];
+		plugin.handleMetadataChange("a.md");
+
+		expect(plugin.getSortedEntries().map((r: any) => r.path)).toEqual(["b.md"]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Frecency shortcuts
+// ---------------------------------------------------------------------------
+
+describe("frecency shortcuts", () => {
+	function withNotes(active: string | null) {
+		const plugin = makePlugin();
+		const now = Date.now();
+		plugin.files = {
+			"a.md":    { score: 3, lastAccess: now, visits: [now] },
+			"b.md":    { score: 2, lastAccess: now, visits: [now] },
+			"gone.md": { score: 9, lastAccess: now, visits: [now] },
+			"c.md":    { score: 1, lastAccess: now, visits: [now] },
+		};
+		const opened: string[] = [];
+		const file = (path: string) => new (TFile as any)(path);
+		plugin.app = {
+			vault: { getAbstractFileByPath: (path: string) => (path === "gone.md" ? null : file(path)) },
+			workspace: {
+				getActiveFile: () => (active ? file(active) : null),
+				trigger: mock(() => {}),
+				getLeaf: () => ({ openFile: async (f: any) => { opened.push(f.path); } }),
+			},
+		};
+		return { plugin, opened };
+	}
+
+	it("numbers ranked notes that still exist", () => {
+		const { plugin } = withNotes(null);
+		expect(plugin.getRankedPaths()).toEqual(["a.md", "b.md", "c.md"]);
+	});
+
+	it("cycles from the active note", () => {
+		const { plugin, opened } = withNotes("b.md");
+		plugin.cycleRanking(1);
+		plugin.cycleRanking(-1);
+		expect(opened).toEqual(["c.md", "a.md"]);
+	});
+
+	it("jumps to the best match", () => {
+		const { plugin, opened } = withNotes(null);
+		plugin.jump("a");
+		expect(opened).toEqual(["a.md"]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Section tracking
+// ---------------------------------------------------------------------------
+
+describe("section tracking", () => {
+	function withSections() {
+		const plugin = makePlugin();
+		plugin.dwell = { rename: mock(() => {}), remove: mock(() => {}) };
+		plugin.app.vault = { getAbstractFileByPath: (path: string) => new (TFile as any)(path) };
+		plugin.app.metadataCache = {
+			getCache: () => ({ headings: [{ heading: "Intro" }, { heading: "Links" }] }),
+		};
+		plugin.recordSectionVisit("MOC.md", "Links");
+		plugin.recordSectionVisit("MOC.md", "Links");
+		plugin.recordSectionVisit("MOC.md", "Intro");
+		return plugin;
+	}
+
+	it("ranks visited sections by frecency", () => {
+		const plugin = withSections();
+		expect(plugin.getSectionEntries().map((s: any) => [s.path, s.subpath, s.entry.score])).toEqual([
+			["MOC.md", "Links", 2],
+			["MOC.md", "Intro", 1],
+		]);
+	});
+
+	it("carries sections along a note rename and drops them on delete", () => {
+		const plugin = withSections();
+		plugin.handleRename("MOC.md", "Maps/MOC.md");
+		expect(Object.keys(plugin.sections).sort()).toEqual(["Maps/MOC.md#Intro", "Maps/MOC.md#Links"]);
+
+		plugin.handleFolderRename("Maps", "Index");
+		expect(Object.keys(plugin.sections).sort()).toEqual(["Index/MOC.md#Intro", "Index/MOC.md#Links"]);
+
+		plugin.handleDelete("Index/MOC.md");
+		expect(plugin.sections).toEqual({});
+	});
+
+	it("follows a renamed heading", () => {
+		const plugin = withSections();
+		plugin.reconcileSections("MOC.md", ["Intro", "Reading list"]);
+		expect(Object.keys(plugin.sections).sort()).toEqual(["MOC.md#Intro", "MOC.md#Reading list"]);
+		expect(plugin.sections["MOC.md#Reading list"].score).toBe(2);
+	});
+
+	it("keeps one pending section check and drops it when the leaf changes", () => {
+		const plugin = makePlugin();
+		plugin.settings.trackSections = true;
+		plugin.app.vault = { getAbstractFileByPath: (path: string) => new (TFile as any)(path) };
+		const timers = new Set<number>();
+		let next = 0;
+		plugin.app.workspace.rootSplit = {
+			win: {
+				setTimeout: () => { timers.add(++next); return next; },
+				clearTimeout: (id: number) => timers.delete(id),
+			},
+		};
+
+		plugin.dwell.start("a.md", false, Date.now());
+		plugin.dwell.start("b.md", false, Date.now());
+		expect(timers.size).toBe(1);
+
+		plugin.cancelSectionTimer();
+		expect(timers.size).toBe(0);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+describe("public API", () => {
+	function withApi() {
+		const plugin = makePlugin();
+		const now = Date.now();
+		plugin.files = {
+			"Work/plan.md":  { score: 4, lastAccess: now, visits: [now], opens: 4 },
+			"Work/notes.md": { score: 3, lastAccess: now, visits: [now] },
+			"Home/plan.md":  { score: 2, lastAccess: now, visits: [now] },
+			"gone.md":       { score: 9, lastAccess: now, visits: [now] },
+		};
+		plugin.pinned = ["Home/plan.md"];
+		plugin.app.vault = {
+			getAbstractFileByPath: (path: string) => (path === "gone.md" ? null : new (TFile as any)(path)),
+		};
+		return plugin;
+	}
+
+	it("lists existing notes by frecency, filtered by folder and keywords", () => {
+		const { api } = withApi();
+		expect(api.version).toBe(1);
+		expect(api.getRanking().map((n: any) => n.path)).toEqual(["Work/plan.md", "Work/notes.md", "Home/plan.md"]);
+		expect(api.getRanking({ folder: "Work/" }).map((n: any) => n.path)).toEqual(["Work/plan.md", "Work/notes.md"]);
+		expect(api.getRanking({ query: "plan", limit: 1 }).map((n: any) => n.path)).toEqual(["Work/plan.md"]);
+		expect(api.getRanking({ includeMissing: true, limit: 0 })[0]?.path).toBe("gone.md");
+	});
+
+	it("reports notes as copies with pin state", () => {
+		const plugin = withApi();
+		const note = plugin.api.getNote("Home/plan.md");
+		expect(note).toMatchObject({ path: "Home/plan.md", score: 2, opens: 0, edits: 0, pinned: true });
+		note.score = 100;
+		expect(plugin.files["Home/plan.md"].score).toBe(2);
+		expect(plugin.api.getNote("missing.md")).toBeNull();
+		expect(plugin.api.getPinned()).toEqual(["Home/plan.md"]);
+	});
+
+	it("records visits and triggers the visit event", () => {
+		const plugin = withApi();
+		expect(plugin.api.recordVisit("Work/notes.md")).toBe(true);
+		expect(plugin.api.recordVisit("gone.md")).toBe(false);
+		expect(plugin.files["Work/notes.md"].score).toBe(4);
+		expect(plugin.app.workspace.trigger).toHaveBeenCalledWith("zoxidian:visit", "Work/notes.md");
+	});
+
+	it("triggers rename and prune events", () => {
+		const plugin = withApi();
+		plugin.dwell = { rename: mock(() => {}), remove: mock(() => {}) };
+		const { trigger } = plugin.app.workspace;
+
+		plugin.handleRename("Work/notes.md", "Work/log.md");
+		expect(trigger).toHaveBeenCalledWith("zoxidian:rename", "Work/notes.md", "Work/log.md", false);
+
+		plugin.removeEntries(["Work/log.md", "untracked.md"]);
+		expect(trigger).toHaveBeenCalledWith("zoxidian:prune", ["Work/log.md"], "removed");
+
+		plugin.handleFolderDelete("Work");
+		expect(trigger).toHaveBeenCalledWith("zoxidian:prune", ["Work/plan.md"], "deleted");
+
+		plugin.ageFiles(1);
+		expect(trigger).toHaveBeenCalledWith("zoxidian:prune", ["gone.md"], "aged");
+	});
+});
+
+// ---------------------------------------------------------------------------
+// applySeed
+// ---------------------------------------------------------------------------
+
+describe("applySeed", () => {
+	it("adds untracked notes only and records when seeding happened", () => {
+		const plugin = makePlugin();
+		plugin.files["a.md"] = { score: 7, lastAccess: 1, visits: [1] };
+
+		const added = plugin.applySeed({
+			"a.md": { score: 1, lastAccess: 2, visits: [2] },
+			"b.md": { score: 2, lastAccess: 2, visits: [2] },
+		});
+
+		expect(added).toBe(1);
+		expect(plugin.files["a.md"]?.score).toBe(7);
+		expect(plugin.files["b.md"]?.score).toBe(2);
+		expect(plugin.settings.seededAt).toBeGreaterThan(0);
+		expect(plugin.persistData).toHaveBeenCalledTimes(1);
+	});
+
+	it("is offered again after clearing all data", () => {
+		const plugin = makePlugin();
+		plugin.settings.seededAt = 123;
+
+		plugin.clearData();
+
+		expect(plugin.settings.seededAt).toBe(0);
+	});
 });
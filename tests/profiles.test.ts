@@ -0,0 +1,67 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const {
+	cloneProfileData, DEFAULT_PROFILE_ID, newProfileId, normalizeProfileData, normalizeProfiles, profileForPath,
+} = await import("../src/profiles");
+
+describe("normalizeProfiles", () => {
+	it("always keeps a default profile", () => {
+		expect(Object.keys(normalizeProfiles(null))).toEqual([DEFAULT_PROFILE_ID]);
+		expect(Object.keys(normalizeProfiles({ work: { name: "Work" } }))).toEqual([DEFAULT_PROFILE_ID, "work"]);
+	});
+
+	it("drops invalid overrides and folders", () => {
+		const profiles = normalizeProfiles({
+			work: { name: "", overrides: { scoringStrategy: "nope", maxItems: 10, maxAge: -1 }, autoActivate: ["a", 3, " "] },
+		});
+		expect(profiles.work).toEqual({ name: "work", overrides: { maxItems: 10 }, autoActivate: ["a"] });
+	});
+});
+
+describe("normalizeProfileData", () => {
+	it("validates every non-default profile's maps", () => {
+		const data = normalizeProfileData({
+			work:    { files: { "a.md": { score: 1, lastAccess: 1 }, "bad.md": {} } },
+			default: { files: { "x.md": { score: 1, lastAccess: 1 } } },
+		}, 20);
+		expect(Object.keys(data)).toEqual(["work"]);
+		expect(Object.keys(data.work?.files ?? {})).toEqual(["a.md"]);
+		expect(data.work?.folders).toEqual({});
+	});
+});
+
+describe("newProfileId", () => {
+	it("slugs the name and avoids existing ids", () => {
+		expect(newProfileId("Work Notes!", {})).toBe("work-notes");
+		expect(newProfileId("Work", { work: 1, "work-2": 1 })).toBe("work-3");
+		expect(newProfileId("✨", {})).toBe("profile");
+	});
+});
+
+describe("profileForPath", () => {
+	const profiles = normalizeProfiles({
+		work:   { name: "Work",   autoActivate: ["projects/work/"] },
+		client: { name: "Client", autoActivate: ["projects/work/client"] },
+	});
+
+	it("picks the profile owning the deepest matching folder", () => {
+		expect(profileForPath(profiles, "projects/work/a.md")).toBe("work");
+		expect(profileForPath(profiles, "projects/work/client/b.md")).toBe("client");
+	});
+
+	it("returns null outside every folder", () => {
+		expect(profileForPath(profiles, "projects/workshop/a.md")).toBeNull();
+		expect(profileForPath(profiles, "home.md")).toBeNull();
+	});
+});
+
+describe("cloneProfileData", () => {
+	it("copies entries and visit logs", () => {
+		const source = { files: { "a.md": { score: 1, lastAccess: 1, visits: [1] } }, folders: {}, sections: {} };
+		const copy   = cloneProfileData(source);
+		copy.files["a.md"]?.visits.push(2);
+		expect(source.files["a.md"]?.visits).toEqual([1]);
+	});
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const { parseZoxideQuery, matchZoxideQuery } = await import("../src/query");
+
+function match(query: string, path: string) {
+	return matchZoxideQuery(parseZoxideQuery(query), path);
+}
+
+describe("parseZoxideQuery", () => {
+	it("splits keywords on whitespace", () => {
+		expect(parseZoxideQuery("  foo   bar ")).toEqual({ keywords: ["foo", "bar"], foldersOnly: false });
+	});
+
+	it("treats a trailing slash as folder-only", () => {
+		expect(parseZoxideQuery("proj /").foldersOnly).toBe(true);
+		expect(parseZoxideQuery("proj/").foldersOnly).toBe(true);
+	});
+});
+
+describe("matchZoxideQuery", () => {
+	it("matches keywords in order", () => {
+		expect(match("work plan", "work/2024/plan.md")).toEqual([[0, 4], [10, 14]]);
+	});
+
+	it("rejects keywords out of order", () => {
+		expect(match("plan work", "work/plan.md")).toBeNull();
+	});
+
+	it("requires the last keyword to match the basename", () => {
+		expect(match("work", "work/plan.md")).toBeNull();
+		expect(match("pla", "work/plan.md")).toEqual([[5, 8]]);
+	});
+
+	it("binds the last keyword to its rightmost occurrence", () => {
+		expect(match("foo", "foo/foo.md")).toEqual([[4, 7]]);
+	});
+
+	it("is case-insensitive for lowercase keywords", () => {
+		expect(match("plan", "Work/Plan.md")).toEqual([[5, 9]]);
+	});
+
+	it("is case-sensitive for keywords containing uppercase", () => {
+		expect(match("Plan", "work/plan.md")).toBeNull();
+		expect(match("Plan", "work/Plan.md")).toEqual([[5, 9]]);
+	});
+
+	it("strips the separator from a folder keyword", () => {
+		expect(match("proj/", "archive/proj")).toEqual([[8, 12]]);
+	});
+});
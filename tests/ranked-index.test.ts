@@ -0,0 +1,124 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+import type { FileEntry } from "../src/types";
+
+// Dynamic import so the mock is registered before the module loads.
+const { RankedIndex } = await import("../src/ranked-index");
+
+const byScore = (entry: FileEntry) => entry.score;
+const all = () => true;
+
+function entry(score: number): FileEntry {
+	return { score, lastAccess: 0, visits: [] };
+}
+
+// Deterministic pseudo-random numbers, so failures reproduce.
+function random(seed: number): () => number {
+	let state = seed;
+	return () => {
+		state = (state * 1103515245 + 12345) % 2147483648;
+		return state / 2147483648;
+	};
+}
+
+function syntheticFiles(count: number, next: () => number): Record<string, FileEntry> {
+	const files: Record<string, FileEntry> = {};
+	for (let i = 0; i < count; i++) files[`folder${i % 100}/note${i}.md`] = entry(1 + Math.floor(next() * 1000));
+	return files;
+}
+
+describe("RankedIndex", () => {
+	it("sorts by score, highest first, and drops excluded paths", () => {
+		const index = new RankedIndex();
+		index.rebuild({ "a.md": entry(1), "b.md": entry(3), "c.md": entry(2) }, path => path !== "c.md", byScore);
+		expect(index.entries.map(e => e.path)).toEqual(["b.md", "a.md"]);
+	});
+
+	it("moves an updated entry to its new place", () => {
+		const files = { "a.md": entry(1), "b.md": entry(3), "c.md": entry(2) };
+		const index = new RankedIndex();
+		index.rebuild(files, all, byScore);
+
+		files["a.md"].score = 5;
+		expect(index.update("a.md", files["a.md"], true, byScore)).toBe(true);
+		expect(index.entries.map(e => [e.path, e.frecency])).toEqual([["a.md", 5], ["b.md", 3], ["c.md", 2]]);
+	});
+
+	it("inserts new entries and removes deleted or excluded ones", () => {
+		const index = new RankedIndex();
+		index.rebuild({ "a.md": entry(1), "b.md": entry(3) }, all, byScore);
+
+		index.update("new.md", entry(2), true, byScore);
+		expect(index.entries.map(e => e.path)).toEqual(["b.md", "new.md", "a.md"]);
+
+		index.update("b.md", undefined, true, byScore);
+		index.update("a.md", entry(1), false, byScore);
+		expect(index.entries.map(e => e.path)).toEqual(["new.md"]);
+		expect(index.update("zzz.md", undefined, true, byScore)).toBe(false);
+	});
+
+	it("places an updated entry after others with the same frecency", () => {
+		const index = new RankedIndex();
+		index.rebuild({ "a.md": entry(2), "b.md": entry(2), "c.md": entry(1) }, all, byScore);
+
+		index.update("c.md", entry(2), true, byScore);
+		expect(index.entries.map(e => e.path)).toEqual(["a.md", "b.md", "c.md"]);
+	});
+
+	it("matches a full rebuild after many updates", () => {
+		const next  = random(42);
+		const files = syntheticFiles(2000, next);
+		const index = new RankedIndex();
+		index.rebuild(files, all, byScore);
+
+		const paths = Object.keys(files);
+		for (let i = 0; i < 500; i++) {
+			const path = paths[Math.floor(next() * paths.length)] as string;
+			if (next() < 0.1) {
+				delete files[path];
+				index.update(path, undefined, true, byScore);
+			} else {
+				const updated = entry(1 + Math.floor(next() * 1000));
+				files[path] = updated;
+				index.update(path, updated, true, byScore);
+			}
+		}
+
+		const fresh = new RankedIndex();
+		fresh.rebuild(files, all, byScore);
+		expect(index.entries.map(e => e.frecency)).toEqual(fresh.entries.map(e => e.frecency));
+		expect(new Set(index.entries.map(e => e.path))).toEqual(new Set(fresh.entries.map(e => e.path)));
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Benchmark — a synthetic 50k-note database. Timings are compared with each
+// other rather than with fixed budgets, so the test holds on slow machines.
+// ---------------------------------------------------------------------------
+
+describe("RankedIndex on 50k entries", () => {
+	it("re-ranks visits far faster than re-sorting", () => {
+		const next  = random(7);
+		const files = syntheticFiles(50_000, next);
+		const paths = Object.keys(files);
+		const index = new RankedIndex();
+
+		let start = Date.now();
+		index.rebuild(files, all, byScore);
+		const rebuild = Date.now() - start;
+		expect(index.size).toBe(50_000);
+
+		const visits = 200;
+		start = Date.now();
+		for (let i = 0; i < visits; i++) {
+			const path = paths[Math.floor(next() * paths.length)] as string;
+			const visited = files[path] as FileEntry;
+			visited.score += 1;
+			index.update(path, visited, true, byScore);
+		}
+		const incremental = Date.now() - start;
+
+		// Two hundred visits cost less than a single full sort.
+		expect(incremental).toBeLessThan(rebuild);
+	});
+});
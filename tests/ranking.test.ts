@@ -0,0 +1,48 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const { basenameOf, basenameBonus, blendRanking } = await import("../src/ranking");
+const { DEFAULT_SETTINGS } = await import("../src/settings");
+
+function candidate(path: string, frecency: number, matchScore: number) {
+	return { path, frecency, matchScore };
+}
+
+describe("basenameOf", () => {
+	it("strips folders and the extension", () => {
+		expect(basenameOf("a/b/Plan.md")).toBe("Plan");
+		expect(basenameOf(".hidden")).toBe(".hidden");
+	});
+});
+
+describe("basenameBonus", () => {
+	it("ranks exact over prefix over substring matches", () => {
+		const exact    = basenameBonus("plan", "x/Plan.md");
+		const prefix   = basenameBonus("plan", "x/Planning.md");
+		const contains = basenameBonus("plan", "x/Replanned.md");
+		expect(exact).toBeGreaterThan(prefix);
+		expect(prefix).toBeGreaterThan(contains);
+		expect(contains).toBeGreaterThan(0);
+		expect(basenameBonus("plan", "plan/Other.md")).toBe(0);
+	});
+});
+
+describe("blendRanking", () => {
+	const hot  = candidate("projects/plan-archive/notes.md", 200, -3);
+	const cold = candidate("misc/plan.md", 0, -0.5);
+
+	it("lets an exact basename match on a cold note beat a weak hit on a hot one", () => {
+		expect(blendRanking([hot, cold], "plan", DEFAULT_SETTINGS.matchBalance).map(c => c.path)).toEqual([cold.path, hot.path]);
+	});
+
+	it("ranks by frecency alone when balance is 0", () => {
+		expect(blendRanking([cold, hot], "plan", 0).map(c => c.path)).toEqual([hot.path, cold.path]);
+	});
+
+	it("keeps incoming order for ties", () => {
+		const a = candidate("a.md", 1, -1);
+		const b = candidate("b.md", 1, -1);
+		expect(blendRanking([a, b], "zzz", 0.5)).toEqual([a, b]);
+	});
+});
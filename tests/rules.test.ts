@@ -0,0 +1,100 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const { compileRules, globToRegExp, isExcluded, migrateExcludePaths, normalizeRules } = await import("../src/rules");
+
+type Rule = Parameters<typeof compileRules>[0][number];
+
+function rule(type: Rule["type"], pattern: string, effect: Rule["effect"] = "exclude", scope: Rule["scope"] = "both"): Rule {
+	return { type, pattern, effect, scope };
+}
+
+const noMeta = () => null;
+
+describe("globToRegExp", () => {
+	it("keeps * within one folder and lets ** cross folders", () => {
+		expect(globToRegExp("daily/*").test("daily/a.md")).toBe(true);
+		expect(globToRegExp("daily/*").test("daily/2024/a.md")).toBe(false);
+		expect(globToRegExp("daily/**").test("daily/2024/a.md")).toBe(true);
+		expect(globToRegExp("**/draft.md").test("draft.md")).toBe(true);
+	});
+
+	it("matches slash-free patterns against the name in any folder", () => {
+		expect(globToRegExp("*.excalidraw.md").test("art/x.excalidraw.md")).toBe(true);
+		expect(globToRegExp("*.excalidraw.md").test("art/x.md")).toBe(false);
+	});
+
+	it("escapes regex characters", () => {
+		expect(globToRegExp("a+b (1).md").test("a+b (1).md")).toBe(true);
+	});
+});
+
+describe("compileRules", () => {
+	it("reports an error per invalid rule and skips it", () => {
+		const compiled = compileRules([rule("regex", "["), rule("glob", "a/**"), rule("tag", "#"), rule("glob", " ")]);
+		expect(compiled.rules).toHaveLength(1);
+		expect(compiled.errors[0]).toBeString();
+		expect(compiled.errors[1]).toBeNull();
+		expect(compiled.errors[2]).toBe("Not a valid tag");
+		expect(compiled.errors[3]).toBe("Pattern is empty");
+	});
+});
+
+describe("isExcluded", () => {
+	it("lets the last matching rule win", () => {
+		const compiled = compileRules([rule("glob", "daily/**"), rule("glob", "daily/keep.md", "include")]);
+		expect(isExcluded(compiled, "daily/a.md", "display", noMeta)).toBe(true);
+		expect(isExcluded(compiled, "daily/keep.md", "display", noMeta)).toBe(false);
+		expect(isExcluded(compiled, "other.md", "display", noMeta)).toBe(false);
+	});
+
+	it("only applies rules for the given scope", () => {
+		const compiled = compileRules([rule("glob", "a/**", "exclude", "tracking")]);
+		expect(isExcluded(compiled, "a/x.md", "tracking", noMeta)).toBe(true);
+		expect(isExcluded(compiled, "a/x.md", "display", noMeta)).toBe(false);
+	});
+
+	it("matches tags, including nested tags, case-insensitively", () => {
+		const compiled = compileRules([rule("tag", "#Private")]);
+		const meta = (tags: string[]) => () => ({ tags, frontmatter: {} });
+		expect(isExcluded(compiled, "a.md", "display", meta(["#private/journal"]))).toBe(true);
+		expect(isExcluded(compiled, "a.md", "display", meta(["#privateish"]))).toBe(false);
+	});
+
+	it("matches frontmatter keys and values", () => {
+		const compiled = compileRules([rule("frontmatter", "zoxidian: false")]);
+		const meta = (frontmatter: Record<string, unknown>) => () => ({ tags: [], frontmatter });
+		expect(isExcluded(compiled, "a.md", "display", meta({ zoxidian: false }))).toBe(true);
+		expect(isExcluded(compiled, "a.md", "display", meta({ zoxidian: true }))).toBe(false);
+		expect(isExcluded(compiled, "a.md", "display", noMeta)).toBe(false);
+
+		const anyValue = compileRules([rule("frontmatter", "archived")]);
+		expect(isExcluded(anyValue, "a.md", "display", meta({ archived: null }))).toBe(true);
+	});
+
+	it("only looks metadata up when a rule needs it", () => {
+		let lookups = 0;
+		const getMeta = () => { lookups++; return null; };
+		isExcluded(compileRules([rule("glob", "a/**")]), "a/x.md", "display", getMeta);
+		expect(lookups).toBe(0);
+		isExcluded(compileRules([rule("tag", "x"), rule("frontmatter", "y")]), "a/x.md", "display", getMeta);
+		expect(lookups).toBe(1);
+	});
+});
+
+describe("normalizeRules", () => {
+	it("drops malformed rules and fills in defaults", () => {
+		expect(normalizeRules([{ type: "glob", pattern: "a" }, { type: "nope", pattern: "b" }, null, "x"])).toEqual([
+			rule("glob", "a"),
+		]);
+	});
+});
+
+describe("migrateExcludePaths", () => {
+	it("turns a non-empty regex into one display rule", () => {
+		expect(migrateExcludePaths(" ^daily/ ")).toEqual([rule("regex", "^daily/", "exclude", "display")]);
+		expect(migrateExcludePaths("")).toEqual([]);
+		expect(migrateExcludePaths(undefined)).toEqual([]);
+	});
+});
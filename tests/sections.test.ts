@@ -0,0 +1,94 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const {
+	moveSections, normalizeSubpath, parseSectionKey, reconcileHeadings, removeSections, renameSection, sectionAtLine,
+	sectionKey,
+} = await import("../src/sections");
+
+function entry(score: number) {
+	return { score, lastAccess: score, visits: [score] };
+}
+
+function at(start: number, end = start) {
+	return { position: { start: { line: start }, end: { line: end } } };
+}
+
+describe("section keys", () => {
+	it("round-trips a path and a heading or block", () => {
+		expect(sectionKey("Notes/MOC.md", "Reading list")).toBe("Notes/MOC.md#Reading list");
+		expect(parseSectionKey("Notes/MOC.md#^abc")).toEqual({ path: "Notes/MOC.md", subpath: "^abc" });
+	});
+
+	it("rejects keys without a path or a section", () => {
+		expect(parseSectionKey("MOC.md")).toBeNull();
+		expect(parseSectionKey("#Heading")).toBeNull();
+		expect(parseSectionKey("MOC.md#")).toBeNull();
+	});
+});
+
+describe("normalizeSubpath", () => {
+	it("keeps the section a link lands on", () => {
+		expect(normalizeSubpath("#Heading")).toBe("Heading");
+		expect(normalizeSubpath("#Parent#Child")).toBe("Child");
+		expect(normalizeSubpath("#^block")).toBe("^block");
+		expect(normalizeSubpath("#")).toBeNull();
+	});
+});
+
+describe("sectionAtLine", () => {
+	const cache = {
+		headings: [{ heading: "One", ...at(0) }, { heading: "Two", ...at(10) }],
+		blocks: { quote: { id: "quote", ...at(14, 16) } },
+	};
+
+	it("picks the last heading at or above the line", () => {
+		expect(sectionAtLine(cache, 9)).toBe("One");
+		expect(sectionAtLine(cache, 10)).toBe("Two");
+	});
+
+	it("prefers a block spanning the line", () => {
+		expect(sectionAtLine(cache, 15)).toBe("^quote");
+	});
+
+	it("returns null above the first heading or without metadata", () => {
+		expect(sectionAtLine({ headings: [{ heading: "One", ...at(3) }] }, 1)).toBeNull();
+		expect(sectionAtLine(null, 1)).toBeNull();
+	});
+});
+
+describe("moving and removing sections", () => {
+	it("moves a note's sections and merges into existing ones", () => {
+		const map = { "a.md#One": entry(2), "b.md#One": entry(1), "ab.md#One": entry(5) };
+		expect(moveSections(map, "a.md", "b.md", 20)).toBe(true);
+		expect(Object.keys(map).sort()).toEqual(["ab.md#One", "b.md#One"]);
+		expect(map["b.md#One"]?.score).toBe(3);
+	});
+
+	it("removes only the note's own sections", () => {
+		const map = { "a.md#One": entry(1), "a.md#^b": entry(1), "ab.md#One": entry(1) };
+		expect(removeSections(map, "a.md")).toBe(true);
+		expect(Object.keys(map)).toEqual(["ab.md#One"]);
+		expect(removeSections(map, "a.md")).toBe(false);
+	});
+
+	it("renames one heading", () => {
+		const map = { "a.md#Old": entry(1) };
+		expect(renameSection(map, "a.md", "Old", "New", 20)).toBe(true);
+		expect(Object.keys(map)).toEqual(["a.md#New"]);
+		expect(renameSection(map, "a.md", "Old", "New", 20)).toBe(false);
+	});
+});
+
+describe("reconcileHeadings", () => {
+	it("pairs headings changed in place", () => {
+		expect(reconcileHeadings(["A", "B", "C"], ["A", "Bee", "C"])).toEqual([["B", "Bee"]]);
+	});
+
+	it("ignores reordering, additions and removals", () => {
+		expect(reconcileHeadings(["A", "B"], ["B", "A"])).toEqual([]);
+		expect(reconcileHeadings(["A", "B"], ["A", "B", "C"])).toEqual([]);
+		expect(reconcileHeadings(["A", "B"], ["A"])).toEqual([]);
+	});
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const { buildSeedEntries, mtimeScore } = await import("../src/seed");
+
+const HOUR = 3_600_000;
+const DAY  = 86_400_000;
+const NOW  = 1_700_000_000_000;
+
+describe("mtimeScore", () => {
+	it("scores by modification age", () => {
+		expect(mtimeScore(NOW - HOUR, NOW)).toBe(3);
+		expect(mtimeScore(NOW - 3 * DAY, NOW)).toBe(2);
+		expect(mtimeScore(NOW - 20 * DAY, NOW)).toBe(1);
+		expect(mtimeScore(NOW - 60 * DAY, NOW)).toBe(0);
+	});
+});
+
+describe("buildSeedEntries", () => {
+	const notes = [
+		{ path: "recent.md",   mtime: NOW - 60 * DAY },
+		{ path: "edited.md",   mtime: NOW - HOUR },
+		{ path: "both.md",     mtime: NOW - 3 * DAY },
+		{ path: "ancient.md",  mtime: NOW - 400 * DAY },
+	];
+
+	it("combines recent-file rank and mtime score", () => {
+		const entries = buildSeedEntries(["both.md", "recent.md"], notes, 9000, 20, NOW);
+
+		expect(entries["both.md"]?.score).toBe(10 + 2);
+		expect(entries["recent.md"]?.score).toBe(9);
+		expect(entries["edited.md"]?.score).toBe(3);
+		expect(entries["ancient.md"]).toBeUndefined();
+	});
+
+	it("uses the modification time as last access", () => {
+		const entries = buildSeedEntries([], notes, 9000, 20, NOW);
+		expect(entries["edited.md"]).toEqual({ score: 3, lastAccess: NOW - HOUR, visits: [NOW - HOUR] });
+	});
+
+	it("ignores recent paths that are not candidate notes", () => {
+		const entries = buildSeedEntries(["deleted.md"], notes, 9000, 20, NOW);
+		expect(entries["deleted.md"]).toBeUndefined();
+	});
+
+	it("keeps the seeded total within maxAge", () => {
+		const entries = buildSeedEntries(["recent.md", "both.md"], notes, 10, 20, NOW);
+		const total = Object.values(entries).reduce((sum, e) => sum + e.score, 0);
+		expect(total).toBeLessThanOrEqual(10);
+	});
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const { ShardStore } = await import("../src/shard-store");
+const { emptyShard } = await import("../src/shards");
+
+/** In-memory stand-in for the vault adapter, holding one folder of files. */
+function memoryAdapter(files: Record<string, string>) {
+	return {
+		files,
+		exists: async (path: string) => path === "plugin/shards" || path in files,
+		mkdir:  async () => {},
+		list:   async () => ({ files: Object.keys(files), folders: [] }),
+		read:   async (path: string) => files[path] as string,
+		write:  async (path: string, data: string) => { files[path] = data; },
+		rename: async (from: string, to: string) => { files[to] = files[from] as string; delete files[from]; },
+		stat:   async () => ({ mtime: 1 }),
+	};
+}
+
+describe("ShardStore", () => {
+	it("lists unreadable shards and leaves them out", async () => {
+		const adapter = memoryAdapter({
+			"plugin/shards/other.json": JSON.stringify(emptyShard("other")),
+			"plugin/shards/broken.json": "{ half",
+		});
+		const store = new ShardStore(adapter as any, "plugin", "local");
+
+		const { local, remote } = await store.readAll(20);
+
+		expect(local).toBeNull();
+		expect(remote.map(s => s.deviceId)).toEqual(["other"]);
+		expect(store.unreadable).toEqual(["plugin/shards/broken.json"]);
+	});
+
+	it("does not report an unchanged unreadable shard as a remote change", async () => {
+		const adapter = memoryAdapter({ "plugin/shards/broken.json": "{ half" });
+		const store = new ShardStore(adapter as any, "plugin", "local");
+		await store.readAll(20);
+
+		expect(await store.hasRemoteChanges()).toBe(false);
+		expect(await store.hasRemoteChanges()).toBe(false);
+	});
+
+	it("moves its own unreadable shard aside instead of writing over it", async () => {
+		const adapter = memoryAdapter({ "plugin/shards/local.json": "{ half" });
+		const store = new ShardStore(adapter as any, "plugin", "local");
+		await store.readAll(20);
+
+		await store.writeLocal(emptyShard("local"));
+
+		const kept = Object.keys(adapter.files).find(path => path.startsWith("plugin/shards/local.json.unreadable-"));
+		expect(kept && adapter.files[kept]).toBe("{ half");
+		expect(JSON.parse(adapter.files["plugin/shards/local.json"] as string).deviceId).toBe("local");
+		expect(store.unreadable).toEqual([]);
+	});
+});
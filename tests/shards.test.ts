@@ -0,0 +1,193 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const {
+	emptyShard, normalizeShard, resolvePath, mergeShards, mergeTransitions, patchMergedEntry, pruneTombstones,
+	TOMBSTONE_TTL_MS, MAX_TOMBSTONES,
+} = await import("../src/shards");
+
+const NOW = 1_700_000_000_000;
+
+function entry(score: number, lastAccess = NOW) {
+	return { score, lastAccess, visits: [lastAccess] };
+}
+
+function shard(deviceId: string, files: Record<string, ReturnType<typeof entry>>, extra = {}) {
+	return { ...emptyShard(deviceId), files, ...extra };
+}
+
+describe("normalizeShard", () => {
+	it("drops malformed entries and tombstones", () => {
+		const result = normalizeShard({
+			deviceId: "a",
+			files: { "ok.md": entry(1), "bad.md": { score: "x" } },
+			tombstones: { "gone.md": { at: NOW }, "broken.md": { to: "x.md" } },
+		}, "a", 20);
+
+		expect(Object.keys(result.files)).toEqual(["ok.md"]);
+		expect(Object.keys(result.tombstones)).toEqual(["gone.md"]);
+	});
+
+	it("returns an empty shard for garbage", () => {
+		expect(normalizeShard("nope", "a", 20)).toEqual(emptyShard("a"));
+	});
+});
+
+describe("mergeShards", () => {
+	it("sums scores for the same path by default", () => {
+		const { files } = mergeShards([
+			shard("a", { "n.md": entry(2, NOW - 10) }),
+			shard("b", { "n.md": entry(3, NOW) }),
+		], "sum", 20);
+
+		expect(files["n.md"]).toMatchObject({ score: 5, lastAccess: NOW, visits: [NOW - 10, NOW] });
+	});
+
+	it("takes the highest score in max mode", () => {
+		const { files } = mergeShards([
+			shard("a", { "n.md": entry(2) }),
+			shard("b", { "n.md": entry(3) }),
+		], "max", 20);
+
+		expect(files["n.md"]?.score).toBe(3);
+	});
+
+	it("gives the same result whatever order the shards are read in", () => {
+		const a = shard("a", { "n.md": entry(2, NOW - 5), "x.md": entry(1) });
+		const b = shard("b", { "n.md": entry(4, NOW) }, { tombstones: { "x.md": { at: NOW, to: "y.md" } } });
+		expect(mergeShards([a, b], "sum", 20)).toEqual(mergeShards([b, a], "sum", 20));
+	});
+
+	it("moves older entries along a rename from another device", () => {
+		const { files } = mergeShards([
+			shard("a", { "old.md": entry(2, NOW - 10) }),
+			shard("b", { "new.md": entry(1, NOW) }, { tombstones: { "old.md": { at: NOW - 5, to: "new.md" } } }),
+		], "sum", 20);
+
+		expect(files["old.md"]).toBeUndefined();
+		expect(files["new.md"]?.score).toBe(3);
+	});
+
+	it("keeps visits made after a delete", () => {
+		const { files } = mergeShards([
+			shard("a", { "gone.md": entry(2, NOW - 10), "back.md": entry(1, NOW) }),
+			shard("b", {}, { tombstones: { "gone.md": { at: NOW - 5 }, "back.md": { at: NOW - 5 } } }),
+		], "sum", 20);
+
+		expect(files["gone.md"]).toBeUndefined();
+		expect(files["back.md"]?.score).toBe(1);
+	});
+
+	it("ignores entries older than the latest reset on any shard", () => {
+		const { files } = mergeShards([
+			shard("a", { "old.md": entry(2, NOW - 10), "new.md": entry(1, NOW) }),
+			shard("b", {}, { resetAt: NOW - 5 }),
+		], "sum", 20);
+
+		expect(Object.keys(files)).toEqual(["new.md"]);
+	});
+
+	it("applies folder tombstones to notes and folder visits below them", () => {
+		const { files, folders } = mergeShards([
+			{ ...shard("a", { "a/b/n.md": entry(1, NOW - 10) }), folders: { "a/b": entry(1, NOW - 10) } },
+			shard("b", {}, { tombstones: { "a": { at: NOW - 5, to: "z", folder: true } } }),
+		], "sum", 20);
+
+		expect(Object.keys(files)).toEqual(["z/b/n.md"]);
+		expect(Object.keys(folders)).toEqual(["z/b"]);
+	});
+
+	it("moves section entries along their note's rename", () => {
+		const { sections } = mergeShards([
+			{ ...shard("a", {}), sections: { "old.md#Intro": entry(1, NOW - 10), "gone.md#^b1": entry(1, NOW - 10) } },
+			shard("b", {}, { tombstones: { "old.md": { at: NOW - 5, to: "new.md" }, "gone.md": { at: NOW - 5 } } }),
+		], "sum", 20);
+
+		expect(Object.keys(sections)).toEqual(["new.md#Intro"]);
+	});
+});
+
+describe("mergeTransitions", () => {
+	it("adds up counts and follows renames and deletes", () => {
+		const merged = mergeTransitions([
+			shard("a", {}, { transitions: { "x.md": { "y.md": 1 } }, tombstones: { "old.md": { at: NOW, to: "y.md" } } }),
+			shard("b", {}, { transitions: { "x.md": { "old.md": 2, "gone.md": 1 } }, tombstones: { "gone.md": { at: NOW } } }),
+		]);
+
+		expect(merged).toEqual({ "x.md": { "y.md": 3 } });
+	});
+
+	it("ignores shards last written before a reset", () => {
+		const merged = mergeTransitions([
+			shard("a", {}, { updatedAt: NOW, resetAt: NOW - 1 }),
+			shard("b", {}, { updatedAt: NOW - 2, transitions: { "x.md": { "y.md": 1 } } }),
+		]);
+
+		expect(merged).toEqual({});
+	});
+});
+
+describe("patchMergedEntry", () => {
+	it("adds a local visit to the merged entry as a full merge would", () => {
+		const local  = { score: 1, lastAccess: NOW, visits: [NOW], opens: 1 };
+		const remote = { score: 2, lastAccess: NOW - 5, visits: [NOW - 5], opens: 2 };
+		const after  = { score: 2, lastAccess: NOW + 1, visits: [NOW, NOW + 1], opens: 2 };
+		const merged = mergeShards([shard("a", { "n.md": local }), shard("b", { "n.md": remote })], "sum", 20).files["n.md"];
+
+		const patched = patchMergedEntry(merged, local, after, "sum", 20);
+
+		expect(patched).toEqual(mergeShards([shard("a", { "n.md": after }), shard("b", { "n.md": remote })], "sum", 20).files["n.md"]);
+	});
+
+	it("keeps the highest score in max mode", () => {
+		const merged = entry(5);
+		expect(patchMergedEntry(merged, entry(1), entry(2), "max", 20).score).toBe(5);
+		expect(patchMergedEntry(merged, entry(1), entry(6), "max", 20).score).toBe(6);
+	});
+
+	it("starts from the local entry when the merge had none", () => {
+		expect(patchMergedEntry(undefined, undefined, entry(1), "sum", 20)).toEqual(entry(1));
+	});
+});
+
+describe("resolvePath", () => {
+	it("follows rename chains", () => {
+		const tombstones = new Map([
+			["a.md", { at: NOW, to: "b.md" }],
+			["b.md", { at: NOW + 1, to: "c.md" }],
+		]);
+		expect(resolvePath("a.md", NOW - 1, tombstones)).toBe("c.md");
+	});
+
+	it("stops on rename cycles", () => {
+		const tombstones = new Map([
+			["a.md", { at: NOW, to: "b.md" }],
+			["b.md", { at: NOW, to: "a.md" }],
+		]);
+		expect(["a.md", "b.md"]).toContain(resolvePath("a.md", NOW - 1, tombstones) as string);
+	});
+
+	it("returns null for deleted folders", () => {
+		const tombstones = new Map([["a", { at: NOW, folder: true }]]);
+		expect(resolvePath("a/n.md", NOW - 1, tombstones)).toBeNull();
+	});
+});
+
+describe("pruneTombstones", () => {
+	it("drops expired tombstones", () => {
+		const kept = pruneTombstones({
+			"old.md": { at: NOW - TOMBSTONE_TTL_MS },
+			"new.md": { at: NOW - 1 },
+		}, NOW);
+		expect(Object.keys(kept)).toEqual(["new.md"]);
+	});
+
+	it("keeps only the newest tombstones past the cap", () => {
+		const many: Record<string, { at: number }> = {};
+		for (let i = 0; i <= MAX_TOMBSTONES; i++) many[`${i}.md`] = { at: NOW - i };
+		const kept = pruneTombstones(many, NOW);
+		expect(Object.keys(kept)).toHaveLength(MAX_TOMBSTONES);
+		expect(kept[`${MAX_TOMBSTONES}.md`]).toBeUndefined();
+	});
+});
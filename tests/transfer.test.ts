@@ -0,0 +1,108 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const { applyImport, formatForExtension, parseDatabase, serializeDatabase } = await import("../src/transfer");
+
+const files = {
+	"a.md":          { score: 3, lastAccess: 2_000_000, visits: [1_000_000, 2_000_000], opens: 3, edits: 1 },
+	"b, quoted.md":  { score: 1.5, lastAccess: 5_000, visits: [5_000] },
+};
+
+describe("formatForExtension", () => {
+	it("maps extensions to formats", () => {
+		expect(formatForExtension("JSON")).toBe("json");
+		expect(formatForExtension("csv")).toBe("csv");
+		expect(formatForExtension("txt")).toBe("zoxide");
+		expect(formatForExtension("md")).toBeNull();
+	});
+});
+
+describe("serializeDatabase / parseDatabase round trips", () => {
+	it("json keeps every field", () => {
+		const { entries, errors } = parseDatabase(serializeDatabase(files, "json"), "json", 20);
+		expect(errors).toEqual([]);
+		expect(entries).toEqual(files);
+	});
+
+	it("csv keeps every field, including paths that need quoting", () => {
+		const { entries, errors } = parseDatabase(serializeDatabase(files, "csv"), "csv", 20);
+		expect(errors).toEqual([]);
+		expect(entries).toEqual(files);
+	});
+
+	it("csv keeps quoted line breaks and quotes inside a path", () => {
+		const odd = { 'line\nbreak "quoted".md': { score: 2, lastAccess: 3_000, visits: [3_000] }, ...files };
+		const text = serializeDatabase(odd, "csv");
+		const { entries, errors } = parseDatabase(text, "csv", 20);
+		expect(errors).toEqual([]);
+		expect(entries).toEqual(odd);
+	});
+
+	it("zoxide text keeps score and access time to the second", () => {
+		const text = serializeDatabase(files, "zoxide");
+		expect(text.split("\n")[0]).toBe("3|2000|a.md");
+
+		const { entries, errors } = parseDatabase(text, "zoxide", 20);
+		expect(errors).toEqual([]);
+		expect(entries["a.md"]).toEqual({ score: 3, lastAccess: 2_000_000, visits: [2_000_000] });
+	});
+});
+
+describe("parseDatabase errors", () => {
+	it("rejects bad zoxide rows with line numbers and keeps the good ones", () => {
+		const { entries, errors } = parseDatabase("2|10|ok.md\nnope\nx|10|bad.md\n-1|10|neg.md\n1|10|", "zoxide", 20);
+		expect(Object.keys(entries)).toEqual(["ok.md"]);
+		expect(errors).toEqual([
+			'Line 2: expected "score|lastAccess|path".',
+			"Line 3: score is not a number.",
+			"Line 4: score must not be negative.",
+			"Line 5: missing path.",
+		]);
+	});
+
+	it("keeps pipes inside zoxide paths", () => {
+		const { entries } = parseDatabase("1|10|a|b.md", "zoxide", 20);
+		expect(Object.keys(entries)).toEqual(["a|b.md"]);
+	});
+
+	it("reports invalid JSON", () => {
+		const { errors } = parseDatabase("{", "json", 20);
+		expect(errors[0]).toStartWith("Invalid JSON");
+	});
+
+	it("reports unterminated csv quotes and bad visit lists", () => {
+		const { errors } = parseDatabase('path,score\n"open,1,1\nb.md,1,1,,,x;y', "csv", 20);
+		expect(errors).toEqual([
+			"Line 2: unterminated quoted field.",
+			'Line 3: visits must be timestamps separated by ";".',
+		]);
+	});
+
+	it("csv numbers records after a multi-line one by their first line", () => {
+		const { errors } = parseDatabase('"a\nb.md",1,1\nc.md,x,1', "csv", 20);
+		expect(errors).toEqual(["Line 3: score is not a number."]);
+	});
+
+	it("merges duplicate rows for one path", () => {
+		const { entries } = parseDatabase("1|10|a.md\n2|20|a.md", "zoxide", 20);
+		expect(entries["a.md"]).toEqual({ score: 3, lastAccess: 20_000, visits: [10_000, 20_000] });
+	});
+});
+
+describe("applyImport", () => {
+	const imported = { "a.md": { score: 2, lastAccess: 9, visits: [9] } };
+
+	it("merges like a rename: scores add, latest access wins", () => {
+		const target = { "a.md": { score: 1, lastAccess: 5, visits: [5] }, "b.md": { score: 1, lastAccess: 1, visits: [1] } };
+		applyImport(target, imported, "merge", 20);
+		expect(target["a.md"]).toEqual({ score: 3, lastAccess: 9, visits: [5, 9] });
+		expect(target["b.md"]).toBeDefined();
+	});
+
+	it("replace discards existing entries", () => {
+		const target: Record<string, any> = { "b.md": { score: 1, lastAccess: 1, visits: [1] } };
+		applyImport(target, imported, "replace", 20);
+		expect(Object.keys(target)).toEqual(["a.md"]);
+	});
+});
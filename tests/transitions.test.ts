@@ -0,0 +1,82 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+import type { Transitions } from "../src/transitions";
+
+// Dynamic import so the mock is registered before the module loads.
+const {
+	ageTransitions, getSuccessors, normalizeTransitions, recordTransition, removeFromTransitions, renameInTransitions,
+} = await import("../src/transitions");
+
+describe("recordTransition", () => {
+	it("counts consecutive visits and ignores revisits of the same note", () => {
+		const t: Transitions = {};
+		recordTransition(t, "a.md", "b.md");
+		recordTransition(t, "a.md", "b.md");
+		recordTransition(t, "a.md", "a.md");
+		expect(t).toEqual({ "a.md": { "b.md": 2 } });
+	});
+});
+
+describe("getSuccessors", () => {
+	it("ranks successors by count", () => {
+		const t = { "a.md": { "b.md": 1, "c.md": 3 } };
+		expect(getSuccessors(t, "a.md")).toEqual([{ path: "c.md", count: 3 }, { path: "b.md", count: 1 }]);
+		expect(getSuccessors(t, "x.md")).toEqual([]);
+	});
+});
+
+describe("ageTransitions", () => {
+	it("scales counts like applyAging and drops those below 1", () => {
+		const t: Transitions = { "a.md": { "b.md": 99, "c.md": 1 } };
+		ageTransitions(t, 50);
+		expect(t["a.md"]?.["b.md"]).toBeCloseTo(99 * 45 / 100, 5);
+		expect(t["a.md"]?.["c.md"]).toBeUndefined();
+	});
+
+	it("leaves counts alone under the limit", () => {
+		const t = { "a.md": { "b.md": 2 } };
+		ageTransitions(t, 50);
+		expect(t).toEqual({ "a.md": { "b.md": 2 } });
+	});
+});
+
+describe("renameInTransitions", () => {
+	it("renames a note on both sides and merges colliding counts", () => {
+		const t: Transitions = { "a.md": { "b.md": 1 }, "c.md": { "a.md": 2, "new.md": 3 } };
+		expect(renameInTransitions(t, "a.md", "new.md")).toBe(true);
+		expect(t).toEqual({ "new.md": { "b.md": 1 }, "c.md": { "new.md": 5 } });
+	});
+
+	it("moves everything below a renamed folder", () => {
+		const t: Transitions = { "dir/a.md": { "dir/b.md": 1 } };
+		renameInTransitions(t, "dir", "moved");
+		expect(t).toEqual({ "moved/a.md": { "moved/b.md": 1 } });
+	});
+
+	it("drops transitions that collapse onto one note", () => {
+		const t: Transitions = { "a.md": { "b.md": 1 } };
+		renameInTransitions(t, "a.md", "b.md");
+		expect(t).toEqual({});
+	});
+
+	it("reports no change for unrelated paths", () => {
+		expect(renameInTransitions({ "a.md": { "b.md": 1 } }, "x.md", "y.md")).toBe(false);
+	});
+});
+
+describe("removeFromTransitions", () => {
+	it("drops transitions from and to a deleted note or folder", () => {
+		const t: Transitions = { "a.md": { "dir/b.md": 1, "c.md": 1 }, "dir/b.md": { "a.md": 1 }, "c.md": { "dir/x.md": 1 } };
+		expect(removeFromTransitions(t, "dir")).toBe(true);
+		expect(t).toEqual({ "a.md": { "c.md": 1 } });
+		expect(removeFromTransitions(t, "zzz.md")).toBe(false);
+	});
+});
+
+describe("normalizeTransitions", () => {
+	it("keeps positive numeric counts only", () => {
+		expect(normalizeTransitions({ "a.md": { "b.md": 2, "c.md": "x", "d.md": -1, "a.md": 3 }, "e.md": null }))
+			.toEqual({ "a.md": { "b.md": 2 } });
+		expect(normalizeTransitions(undefined)).toEqual({});
+	});
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const { visibleRange } = await import("../src/virtual-list");
+
+describe("visibleRange", () => {
+	it("covers the viewport plus the overscan", () => {
+		// 20px rows, list starts 100px below the top of a 200px viewport.
+		expect(visibleRange(1000, 20, 100, 200, 2)).toEqual([0, 7]);
+	});
+
+	it("follows the scroll position", () => {
+		// Scrolled 1000px into the list: rows 50–60 are visible.
+		expect(visibleRange(1000, 20, -1000, 200, 2)).toEqual([48, 62]);
+	});
+
+	it("clamps to the list", () => {
+		expect(visibleRange(10, 20, -150, 200, 5)).toEqual([2, 9]);
+		expect(visibleRange(0, 20, 0, 200)).toBeNull();
+	});
+
+	it("returns null for a list scrolled out of view", () => {
+		expect(visibleRange(10, 20, -1000, 200, 0)).toBeNull();
+		expect(visibleRange(10, 20, 500, 200, 0)).toBeNull();
+	});
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "bun:test";
+import "./obsidian-mock";
+
+// Dynamic import so the mock is registered before the module loads.
+const { mergeEntries, normalizeFiles, pushVisit, trimVisits } = await import("../src/visits");
+
+describe("trimVisits", () => {
+	it("keeps the most recent visits up to the cap", () => {
+		expect(trimVisits([1, 2, 3, 4], 2)).toEqual([3, 4]);
+	});
+
+	it("returns an empty log for a cap of 0", () => {
+		expect(trimVisits([1, 2], 0)).toEqual([]);
+	});
+});
+
+describe("pushVisit", () => {
+	it("drops the oldest visit once the cap is reached", () => {
+		const entry = { score: 3, lastAccess: 3, visits: [1, 2, 3] };
+		pushVisit(entry, 4, 3);
+		expect(entry.visits).toEqual([2, 3, 4]);
+	});
+});
+
+describe("mergeEntries", () => {
+	it("sums scores, keeps the latest access and merges logs in time order", () => {
+		const merged = mergeEntries(
+			{ score: 2, lastAccess: 30, visits: [10, 30] },
+			{ score: 5, lastAccess: 40, visits: [20, 40] },
+			3,
+		);
+		expect(merged).toEqual({ score: 7, lastAccess: 40, visits: [20, 30, 40] });
+	});
+
+	it("adds up open and edit counters when either side has them", () => {
+		const merged = mergeEntries(
+			{ score: 2, lastAccess: 1, visits: [], opens: 2, edits: 1 },
+			{ score: 1, lastAccess: 1, visits: [], opens: 1 },
+			3,
+		);
+		expect(merged).toMatchObject({ opens: 3, edits: 1 });
+	});
+});
+
+describe("normalizeFiles", () => {
+	it("migrates legacy entries by seeding the log from lastAccess", () => {
+		const files = normalizeFiles({ "a.md": { score: 4, lastAccess: 1000 } }, 20);
+		expect(files["a.md"]).toEqual({ score: 4, lastAccess: 1000, visits: [1000] });
+	});
+
+	it("keeps existing logs and trims them to the cap", () => {
+		const files = normalizeFiles({ "a.md": { score: 4, lastAccess: 3, visits: [1, 2, 3] } }, 2);
+		expect(files["a.md"]?.visits).toEqual([2, 3]);
+	});
+
+	it("drops malformed entries and non-object input", () => {
+		expect(normalizeFiles({ "a.md": { lastAccess: 1 }, "b.md": null }, 20)).toEqual({});
+		expect(normalizeFiles([], 20)).toEqual({});
+		expect(normalizeFiles(undefined, 20)).toEqual({});
+	});
+});